@@ -65,4 +65,27 @@ describe("buildSystemMessage", () => {
     expect(msg).toContain("claude-opus-4.6");
     expect(msg).toContain("claude-sonnet-4.6");
   });
+
+  it("should give sub-leads their own section and report line", () => {
+    const agent: AgentInfo = { id: "tm-2", name: "DB", role: "teammate", parentId: "tm-1", subLead: true };
+    const msg = buildSystemMessage(agent, 3);
+    expect(msg).toContain("Sub-Lead Responsibilities");
+    expect(msg).toContain("Report findings to your sub-lead `tm-1`");
+    expect(msg).not.toContain("subLead: true");
+    expect(buildSystemMessage(agent, 3, undefined, [], undefined, true)).toContain("subLead: true");
+  });
+
+  it("should only mention sub-leads to the lead when the depth limit allows them", () => {
+    const agent: AgentInfo = { id: "lead", name: "Lead", role: "lead" };
+    expect(buildSystemMessage(agent, 1)).not.toContain("subLead");
+    expect(buildSystemMessage(agent, 1, undefined, [], undefined, true)).toContain("subLead: true");
+  });
+
+  it("should include current blackboard entries", () => {
+    const agent: AgentInfo = { id: "tm-1", name: "Worker", role: "teammate" };
+    const msg = buildSystemMessage(agent, 2, undefined, [
+      { key: "api/base", value: "/v1", version: 3, updatedBy: "lead", updatedAt: 0 },
+    ]);
+    expect(msg).toContain('`api/base` (v3, by lead): "/v1"');
+  });
 });
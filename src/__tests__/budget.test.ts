@@ -0,0 +1,81 @@
+/**
+ * BudgetTracker — unit tests for spend metering and caps
+ */
+import { describe, it, expect } from "vitest";
+import { BudgetTracker } from "../budget.js";
+
+describe("BudgetTracker", () => {
+  it("should meter turns, weighted premium requests and tokens per agent and team", () => {
+    const budget = new BudgetTracker();
+    budget.recordTurn("alice", 3);
+    budget.recordTurn("bob", 0.33);
+    budget.recordUsage("alice", 1000, 200);
+
+    expect(budget.spendOf("alice")).toEqual({
+      turns: 1,
+      premiumRequests: 3,
+      inputTokens: 1000,
+      outputTokens: 200,
+      tokens: 1200,
+    });
+    expect(budget.teamSpend().turns).toBe(2);
+    expect(budget.teamSpend().premiumRequests).toBeCloseTo(3.33);
+    expect(budget.report().agents.map((a) => a.agentId)).toEqual(["alice", "bob"]);
+  });
+
+  it("should report each cap once, when it is first reached", () => {
+    const budget = new BudgetTracker({ team: { soft: { turns: 2 }, hard: { turns: 3 } } });
+    expect(budget.recordTurn("alice", 1)).toEqual([]);
+
+    expect(budget.recordTurn("bob", 1)).toEqual([
+      { scope: "team", level: "soft", metric: "turns", used: 2, cap: 2 },
+    ]);
+    expect(budget.teamLevel()).toBe("soft");
+
+    expect(budget.recordTurn("bob", 1).map((a) => a.level)).toEqual(["hard"]);
+    expect(budget.recordTurn("bob", 1)).toEqual([]);
+    expect(budget.teamLevel()).toBe("hard");
+  });
+
+  it("should apply per-agent caps to each agent separately", () => {
+    const budget = new BudgetTracker({ perAgent: { hard: { tokens: 500 } } });
+    const alerts = budget.recordUsage("alice", 400, 100);
+    expect(alerts).toEqual([{ scope: "alice", level: "hard", metric: "tokens", used: 500, cap: 500 }]);
+    expect(budget.agentLevel("alice")).toBe("hard");
+    expect(budget.agentLevel("bob")).toBe("ok");
+    expect(budget.recordUsage("bob", 10)).toEqual([]);
+  });
+
+  it("should meter each sub-lead's subtree, including nested subtrees", () => {
+    const budget = new BudgetTracker({ perSubtree: { soft: { turns: 2 }, hard: { turns: 3 } } });
+    budget.setParent("backend", "lead");
+    budget.setParent("db", "backend");
+    budget.setParent("orm", "db");
+    budget.trackSubtree("backend");
+    budget.trackSubtree("db");
+
+    expect(budget.recordTurn("orm", 1)).toEqual([]);
+    expect(budget.recordTurn("backend", 1)).toEqual([
+      { scope: "subtree:backend", level: "soft", metric: "turns", used: 2, cap: 2 },
+    ]);
+    expect(budget.subtreeLevel("orm")).toBe("soft");
+    expect(budget.recordTurn("orm", 1).map((a) => `${a.scope}:${a.level}`)).toEqual([
+      "subtree:db:soft",
+      "subtree:backend:hard",
+    ]);
+    expect(budget.subtreeLevel("db")).toBe("hard");
+    expect(budget.subtreeLevel("lead")).toBe("ok");
+    expect(budget.report().subtrees.map((s) => [s.rootId, s.spend.turns])).toEqual([
+      ["backend", 3],
+      ["db", 2],
+    ]);
+  });
+
+  it("should start over after a reset", () => {
+    const budget = new BudgetTracker({ team: { hard: { turns: 1 } } });
+    budget.recordTurn("alice", 1);
+    budget.reset();
+    expect(budget.teamLevel()).toBe("ok");
+    expect(budget.recordTurn("alice", 1)).toHaveLength(1);
+  });
+});
@@ -1,8 +1,8 @@
 /**
  * MessageBus — unit tests (migrated from manual test to Vitest)
  */
-import { describe, it, expect, beforeEach } from "vitest";
-import { MessageBus } from "../message-bus.js";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { MessageBus, currentAttempt } from "../message-bus.js";
 
 describe("MessageBus", () => {
   let bus: MessageBus;
@@ -73,6 +73,100 @@ describe("MessageBus", () => {
 
   // ── Broadcast ───────────────────────────────────────────────
 
+  describe("Message Log", () => {
+    it("should log a broadcast once with all recipients", () => {
+      bus.sendMessage("lead", "*", "All hands");
+      const log = bus.queryMessages();
+      expect(log).toHaveLength(1);
+      expect(log[0]).toMatchObject({ from: "lead", to: "*", recipients: ["alice", "bob"] });
+    });
+
+    it("should filter by participant, thread and time range", () => {
+      vi.useFakeTimers();
+      try {
+        vi.setSystemTime(1_000);
+        const q = bus.sendMessage("lead", "alice", "Question");
+        vi.setSystemTime(2_000);
+        bus.sendMessage("bob", "lead", "Unrelated");
+        vi.setSystemTime(3_000);
+        bus.replyToMessage("alice", q.id, "Answer");
+
+        expect(bus.queryMessages({ participant: "alice" }).map((m) => m.content)).toEqual(["Question", "Answer"]);
+        expect(bus.queryMessages({ threadId: q.threadId })).toHaveLength(2);
+        expect(bus.queryMessages({ since: 1_500, until: 2_500 }).map((m) => m.content)).toEqual(["Unrelated"]);
+        expect(bus.queryMessages({ limit: 1 })[0].content).toBe("Answer");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should keep messages of unregistered agents", () => {
+      bus.sendMessage("lead", "bob", "Bye");
+      bus.unregisterAgent("bob");
+      expect(bus.getMailbox("bob")).toEqual([]);
+      expect(bus.queryMessages({ participant: "bob" })).toHaveLength(1);
+    });
+  });
+
+  describe("Delivery Status", () => {
+    it("should move from queued to delivered to read", () => {
+      const msg = bus.sendMessage("lead", "alice", "Hi");
+      expect(bus.getDeliveryStatus(msg.id)[0].state).toBe("queued");
+
+      bus.takeMessages("alice");
+      expect(bus.getDeliveryStatus(msg.id)[0]).toMatchObject({ state: "delivered", recipient: "alice" });
+      expect(bus.hasUnreadMessages("alice")).toBe(false);
+
+      bus.acknowledgeMessages("alice", [msg.id]);
+      const [status] = bus.getDeliveryStatus(msg.id);
+      expect(status.state).toBe("read");
+      expect(status.readAt).toBeGreaterThanOrEqual(status.deliveredAt!);
+    });
+
+    it("should track each broadcast recipient separately", () => {
+      const msg = bus.sendMessage("lead", "*", "All hands");
+      bus.readMessages("alice");
+      const states = bus.getDeliveryStatus(msg.id).map((d) => [d.recipient, d.state]);
+      expect(states).toEqual([["alice", "read"], ["bob", "queued"]]);
+    });
+
+    it("should bounce dropped messages to the sender", () => {
+      const bounced: string[] = [];
+      bus.on("message:bounced", (m, d) => bounced.push(`${m.id}:${d.reason}`));
+      const msg = bus.sendMessage("lead", "alice", "Hi");
+      bus.takeMessages("alice");
+      bus.dropMessages("alice", [msg.id], "turn limit");
+      expect(bus.getDeliveryStatus(msg.id)[0].state).toBe("dropped");
+      expect(bounced).toEqual([`${msg.id}:turn limit`]);
+    });
+
+    it("should drop unread mail when the recipient is unregistered", () => {
+      const msg = bus.sendMessage("lead", "bob", "Are you there?");
+      const bounced: string[] = [];
+      bus.on("message:bounced", (m) => bounced.push(m.id));
+      bus.unregisterAgent("bob");
+      expect(bus.getDeliveryStatus(msg.id)[0]).toMatchObject({ state: "dropped" });
+      expect(bounced).toEqual([msg.id]);
+    });
+
+    it("should drop mail handed over mid-turn when the recipient is unregistered", () => {
+      const msg = bus.sendMessage("lead", "bob", "Working on it?");
+      bus.takeMessages("bob");
+      bus.unregisterAgent("bob");
+      expect(bus.getDeliveryStatus(msg.id)[0]).toMatchObject({ state: "dropped" });
+    });
+
+    it("should bounce messages sent to an agent that has shut down", () => {
+      bus.unregisterAgent("bob");
+      const bounced: string[] = [];
+      bus.on("message:bounced", (_m, d) => bounced.push(d.reason ?? ""));
+      const msg = bus.sendMessage("alice", "bob", "late reply");
+      expect(bus.getDeliveryStatus(msg.id)[0].state).toBe("dropped");
+      expect(bounced).toEqual(['"bob" has been shut down']);
+      expect(() => bus.sendMessage("alice", "nobody", "typo")).toThrow(/not registered/);
+    });
+  });
+
   describe("Broadcast", () => {
     it("should deliver broadcast to all except sender", () => {
       bus.sendMessage("lead", "*", "Team update");
@@ -91,6 +185,249 @@ describe("MessageBus", () => {
     });
   });
 
+  // ── Threads ─────────────────────────────────────────────────
+
+  describe("Channels", () => {
+    it("should deliver channel messages to members except the sender", () => {
+      expect(bus.joinChannel("alice", "Frontend")).toBe("#frontend");
+      bus.joinChannel("bob", "#frontend");
+      const msg = bus.sendMessage("alice", "#frontend", "UI ready");
+
+      expect(msg.via).toBe("#frontend");
+      expect(bus.readMessages("bob")[0]).toMatchObject({ to: "bob", via: "#frontend" });
+      expect(bus.hasUnreadMessages("alice")).toBe(false);
+      expect(bus.hasUnreadMessages("lead")).toBe(false);
+    });
+
+    it("should track membership and drop empty channels", () => {
+      bus.joinChannel("alice", "reviewers");
+      expect(bus.getAgentChannels("alice")).toEqual(["#reviewers"]);
+      bus.leaveChannel("alice", "reviewers");
+      expect(bus.getChannels()).toEqual([]);
+      expect(() => bus.sendMessage("lead", "#reviewers", "hi")).toThrow(/does not exist/);
+    });
+
+    it("should remove unregistered agents from channels", () => {
+      bus.joinChannel("alice", "frontend");
+      bus.joinChannel("bob", "frontend");
+      bus.unregisterAgent("bob");
+      expect(bus.getChannels()).toEqual([{ name: "#frontend", members: ["alice"] }]);
+    });
+
+    it("should reject invalid channel names", () => {
+      expect(() => bus.joinChannel("alice", "#front end")).toThrow(/Invalid channel name/);
+    });
+  });
+
+  describe("Multicast", () => {
+    it("should reach agents whose specialty matches", () => {
+      bus.registerAgent("carol", { specialty: "Code Review" });
+      bus.registerAgent("dave", { specialty: "Frontend" });
+      const { recipients } = bus.multicast("lead", "review|qa", "please look");
+      expect(recipients).toEqual(["carol"]);
+      expect(bus.readMessages("carol")[0].via).toBe("specialty:review|qa");
+      expect(bus.hasUnreadMessages("dave")).toBe(false);
+    });
+
+    it("should throw when nobody matches", () => {
+      expect(() => bus.multicast("lead", "security", "hi")).toThrow(/No teammate/);
+    });
+  });
+
+  describe("Threads", () => {
+    it("should start a new thread for a message without inReplyTo", () => {
+      const msg = bus.sendMessage("lead", "alice", "Question?");
+      expect(msg.threadId).toBe(msg.id);
+      expect(msg.inReplyTo).toBeUndefined();
+    });
+
+    it("should reply to the original sender in the same thread", () => {
+      const q = bus.sendMessage("lead", "alice", "Question?");
+      const a = bus.replyToMessage("alice", q.id, "Answer");
+      expect(a.to).toBe("lead");
+      expect(a.threadId).toBe(q.id);
+      expect(a.inReplyTo).toBe(q.id);
+    });
+
+    it("should keep nested replies in the root thread", () => {
+      const q = bus.sendMessage("lead", "alice", "Question?");
+      const a = bus.replyToMessage("alice", q.id, "Answer");
+      const f = bus.replyToMessage("lead", a.id, "Follow-up");
+      expect(f.threadId).toBe(q.id);
+    });
+
+    it("should reject replies to messages not in the agent's mailbox", () => {
+      const q = bus.sendMessage("lead", "alice", "Question?");
+      expect(() => bus.replyToMessage("bob", q.id, "Hijack")).toThrow(/not found in mailbox/);
+      expect(() => bus.sendMessage("lead", "alice", "x", { inReplyTo: "msg-999" })).toThrow(
+        'Message "msg-999" not found',
+      );
+    });
+
+    it("should return a full thread in order with broadcast copies collapsed", () => {
+      const q = bus.sendMessage("lead", "*", "Who can help?");
+      bus.replyToMessage("alice", q.id, "Me");
+      bus.replyToMessage("bob", q.id, "Me too");
+      bus.sendMessage("lead", "alice", "Unrelated");
+
+      const thread = bus.getThread(q.id);
+      expect(thread.map((m) => m.content)).toEqual(["Who can help?", "Me", "Me too"]);
+      expect(bus.getThread(q.id, "alice").map((m) => m.content)).toEqual(["Who can help?", "Me"]);
+    });
+  });
+
+  describe("Retention & Backpressure", () => {
+    it("should compact the oldest read messages beyond the mailbox limit", () => {
+      const small = new MessageBus(undefined, { maxMailboxMessages: 2 });
+      small.registerAgent("lead");
+      small.registerAgent("alice");
+      const first = small.sendMessage("lead", "alice", "one");
+      small.sendMessage("lead", "alice", "two");
+      small.sendMessage("lead", "alice", "three");
+      expect(small.getMailbox("alice")).toHaveLength(3); // unread are never removed
+
+      small.readMessages("alice");
+      expect(small.getMailbox("alice").map((m) => m.content)).toEqual(["two", "three"]);
+      expect(() => small.getDeliveryStatus(first.id)).toThrow(/not found/);
+      expect(small.replyToMessage("alice", first.id, "late reply").threadId).toBe(first.id);
+    });
+
+    it("should compact read messages older than the maximum age", () => {
+      const aging = new MessageBus(undefined, { maxMessageAgeMs: 1000 });
+      aging.registerAgent("lead");
+      aging.registerAgent("alice");
+      const read = aging.sendMessage("lead", "alice", "old");
+      aging.readMessages("alice");
+      aging.sendMessage("lead", "alice", "unread");
+
+      expect(aging.compactMailboxes(read.timestamp + 500)).toBe(0);
+      expect(aging.compactMailboxes(read.timestamp + 5000)).toBe(1);
+      expect(aging.getMailbox("alice").map((m) => m.content)).toEqual(["unread"]);
+      expect(aging.getThread(read.id).map((m) => m.content)).toEqual(["old"]);
+    });
+
+    it("should push back when the recipient's backlog is full", () => {
+      const tight = new MessageBus(undefined, { backlogLimit: 2 });
+      tight.registerAgent("lead");
+      tight.registerAgent("alice");
+      const q = tight.sendMessage("alice", "lead", "Question?");
+      tight.sendMessage("lead", "alice", "one");
+      tight.sendMessage("lead", "alice", "two");
+
+      expect(tight.checkBackpressure("lead", "alice")?.reason).toBe("recipient-overloaded");
+      expect(() => tight.sendMessage("lead", "alice", "three")).toThrow(/Recipient overloaded/);
+      expect(() => tight.sendMessage("system", "alice", "notice")).not.toThrow();
+      expect(() => tight.replyToMessage("lead", q.id, "Answer")).not.toThrow();
+
+      tight.readMessages("alice");
+      expect(tight.checkBackpressure("lead", "alice")).toBeUndefined();
+    });
+
+    it("should push back on fan-out sends when any recipient's backlog is full", () => {
+      const tight = new MessageBus(undefined, { backlogLimit: 1 });
+      for (const id of ["lead", "alice", "bob"]) tight.registerAgent(id, { specialty: "backend" });
+      tight.joinChannel("lead", "#api");
+      tight.joinChannel("alice", "#api");
+      tight.sendMessage("lead", "alice", "busy work");
+
+      expect(() => tight.sendMessage("lead", "#api", "one")).toThrow(/Recipient overloaded: "alice"/);
+      expect(() => tight.sendMessage("lead", "*", "two")).toThrow(/Recipient overloaded/);
+      expect(() => tight.multicast("lead", "backend", "three")).toThrow(/Recipient overloaded/);
+      expect(tight.checkBackpressure("lead", "#api")?.reason).toBe("recipient-overloaded");
+      expect(tight.getMailbox("bob")).toHaveLength(0);
+    });
+
+    it("should rate-limit senders per minute", () => {
+      const limited = new MessageBus(undefined, { sendRateLimit: 2 });
+      limited.registerAgent("lead");
+      limited.registerAgent("alice");
+      limited.sendMessage("alice", "lead", "one");
+      const second = limited.sendMessage("alice", "lead", "two");
+
+      expect(() => limited.sendMessage("alice", "*", "three")).toThrow(/Rate limited/);
+      const pressure = limited.checkBackpressure("alice", "lead", undefined, second.timestamp + 1000);
+      expect(pressure?.reason).toBe("rate-limited");
+      expect(pressure?.retryAfterMs).toBeGreaterThan(0);
+      expect(limited.checkBackpressure("alice", "lead", undefined, second.timestamp + 61_000)).toBeUndefined();
+      expect(limited.checkBackpressure("lead", "alice")).toBeUndefined();
+    });
+
+    it("should not count failed sends against the rate limit", () => {
+      const limited = new MessageBus(undefined, { sendRateLimit: 1 });
+      limited.registerAgent("lead");
+      limited.registerAgent("alice");
+      expect(() => limited.sendMessage("alice", "nobody", "typo")).toThrow(/not registered/);
+      expect(() => limited.sendMessage("alice", "#missing", "typo")).toThrow(/does not exist/);
+      expect(() => limited.sendMessage("alice", "lead", "hello")).not.toThrow();
+    });
+  });
+
+  // ── Ask (request/response) ──────────────────────────────────
+
+  describe("Ask", () => {
+    it("should resolve with the correlated reply and mark it read", async () => {
+      const answer = bus.ask("lead", "alice", "Status?", 1000);
+      const [question] = bus.readMessages("alice");
+      expect(question.expectsReply).toBe(true);
+
+      bus.sendMessage("alice", "lead", "Unrelated chatter");
+      bus.replyToMessage("alice", question.id, "All green");
+
+      const reply = await answer;
+      expect(reply.content).toBe("All green");
+      // Only the unrelated message is left for normal delivery
+      expect(bus.readMessages("lead").map((m) => m.content)).toEqual(["Unrelated chatter"]);
+    });
+
+    it("should report which agents are awaited until the answer arrives", async () => {
+      const answer = bus.ask("lead", "alice", "Status?", 1000);
+      expect(bus.isAwaited("alice")).toBe(true);
+      expect(bus.isAwaited("lead")).toBe(false);
+
+      const [question] = bus.readMessages("alice");
+      bus.replyToMessage("alice", question.id, "All green");
+      await answer;
+      expect(bus.isAwaited("alice")).toBe(false);
+    });
+
+    it("should reject on timeout", async () => {
+      vi.useFakeTimers();
+      try {
+        const answer = bus.ask("lead", "alice", "Status?", 1000);
+        const assertion = expect(answer).rejects.toThrow(/No answer from "alice" within 1s/);
+        await vi.advanceTimersByTimeAsync(1000);
+        await assertion;
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should fail fast when asking would deadlock", async () => {
+      const first = bus.ask("alice", "bob", "Q1", 1000);
+      await expect(bus.ask("bob", "alice", "Q2", 1000)).rejects.toThrow(
+        "Deadlock detected: bob → alice → bob",
+      );
+      bus.unregisterAgent("bob");
+      await expect(first).rejects.toThrow(/unregistered/);
+    });
+
+    it("should detect longer wait-for cycles", async () => {
+      const a = bus.ask("lead", "alice", "Q1", 1000);
+      const b = bus.ask("alice", "bob", "Q2", 1000);
+      await expect(bus.ask("bob", "lead", "Q3", 1000)).rejects.toThrow(
+        "Deadlock detected: bob → lead → alice → bob",
+      );
+      bus.reset();
+      await expect(a).rejects.toThrow(/reset/);
+      await expect(b).rejects.toThrow(/reset/);
+    });
+
+    it("should reject asking yourself or an unknown agent", async () => {
+      await expect(bus.ask("lead", "lead", "Q", 1000)).rejects.toThrow(/yourself/);
+      await expect(bus.ask("lead", "ghost", "Q", 1000)).rejects.toThrow(/not registered/);
+    });
+  });
+
   // ── Task Management ─────────────────────────────────────────
 
   describe("Task Management", () => {
@@ -158,10 +495,451 @@ describe("MessageBus", () => {
         /not assigned to "bob"/,
       );
     });
+
+    it("should prevent failing a task assigned to someone else", () => {
+      const task = bus.createTask("Task A", "lead");
+      bus.claimTask(task.id, "alice");
+      expect(() => bus.failTask(task.id, "bob", "Nope")).toThrow(/not assigned to "bob"/);
+      expect(task.status).toBe("in-progress");
+    });
+
+    it("should only complete or fail a task that is in progress", () => {
+      const task = bus.createTask("Task A", "lead");
+      const dependent = bus.createTask("Task B", "lead", { dependsOn: [task.id] });
+      bus.claimTask(task.id, "alice");
+      bus.completeTask(task.id, "alice", "Done");
+      let completions = 0;
+      bus.on("task:completed", () => completions++);
+
+      expect(() => bus.failTask(task.id, "alice", "Oops")).toThrow(/not in progress/);
+      expect(() => bus.completeTask(task.id, "alice", "Again")).toThrow(/not in progress/);
+      expect(task.status).toBe("completed");
+      expect(dependent.status).toBe("pending");
+      expect(completions).toBe(0);
+
+      const assigned = bus.createTask("Task C", "lead", { assignee: "bob", maxAttempts: 2 });
+      expect(() => bus.failTask(assigned.id, "bob", "Not started")).toThrow(/not in progress/);
+      expect(assigned.status).toBe("pending");
+    });
+
+    it("should release a claimed task back to pending", () => {
+      const task = bus.createTask("Task A", "lead");
+      bus.claimTask(task.id, "alice");
+      const released: string[] = [];
+      bus.on("task:released", (_t, prev, reason, note) => released.push(`${prev}:${reason}:${note}`));
+
+      expect(() => bus.releaseTask(task.id, "bob")).toThrow(/not assigned to "bob"/);
+      bus.releaseTask(task.id, "alice", "out of my depth");
+
+      expect(task.status).toBe("pending");
+      expect(task.assignee).toBeUndefined();
+      expect(released).toEqual(["alice:given-up:out of my depth"]);
+      expect(task.attempts[0].outcome).toBe("released");
+    });
+
+    it("should record progress and emit task:updated", () => {
+      const task = bus.createTask("Task A", "lead");
+      bus.claimTask(task.id, "alice");
+      let updates = 0;
+      bus.on("task:updated", () => updates++);
+
+      bus.updateTask(task.id, "alice", { note: "halfway", percent: 150 });
+      expect(task.progress).toMatchObject({ note: "halfway", percent: 100 });
+      expect(updates).toBe(1);
+      expect(() => bus.updateTask(task.id, "bob", { note: "x" })).toThrow(/not assigned/);
+
+      bus.completeTask(task.id, "alice", "Done");
+      expect(task.progress).toBeUndefined();
+      expect(() => bus.updateTask(task.id, "alice", { note: "x" })).toThrow(/not in progress/);
+    });
+  });
+
+  // ── Dependency Validation ───────────────────────────────────
+
+  describe("Dependency Validation", () => {
+    it("should reject unknown dependency IDs", () => {
+      expect(() => bus.createTask("Task B", "lead", { dependsOn: ["task-42"] })).toThrow(
+        'Unknown dependency "task-42"',
+      );
+    });
+
+    it("should reject dependencies that have already failed", () => {
+      const a = bus.createTask("Task A", "lead");
+      bus.claimTask(a.id, "alice");
+      bus.failTask(a.id, "alice", "broken");
+      expect(() => bus.createTask("Task B", "lead", { dependsOn: [a.id] })).toThrow(/can never complete/);
+    });
+
+    it("should reject a subtask that depends on its own ancestor", () => {
+      const epic = bus.createTask("Epic", "lead");
+      expect(() => bus.createTask("Step", "lead", { parentId: epic.id, dependsOn: [epic.id] })).toThrow(
+        /Dependency cycle/,
+      );
+    });
+
+    it("should reject transitive cycles through sibling subtasks", () => {
+      const epic = bus.createTask("Epic", "lead");
+      const outside = bus.createTask("Outside", "lead", { dependsOn: [epic.id] });
+      expect(() =>
+        bus.createTask("Step", "lead", { parentId: epic.id, dependsOn: [outside.id] }),
+      ).toThrow(/Dependency cycle/);
+    });
+
+    it("should de-duplicate dependency IDs", () => {
+      const a = bus.createTask("Task A", "lead");
+      expect(bus.createTask("Task B", "lead", { dependsOn: [a.id, a.id] }).dependsOn).toEqual([a.id]);
+    });
+
+    it("should cascade blocked status to transitive dependents", () => {
+      const a = bus.createTask("Task A", "alice");
+      const b = bus.createTask("Task B", "alice", { dependsOn: [a.id] });
+      const c = bus.createTask("Task C", "bob", { dependsOn: [b.id] });
+      const blocked: string[] = [];
+      bus.on("task:blocked", (t, upstream) => blocked.push(`${t.id}<-${upstream.id}`));
+
+      bus.claimTask(a.id, "alice");
+      bus.failTask(a.id, "alice", "broken");
+
+      expect(b.status).toBe("blocked");
+      expect(c.status).toBe("blocked");
+      expect(c.blockedBy).toBe(a.id);
+      expect(blocked).toEqual([`${b.id}<-${a.id}`, `${c.id}<-${a.id}`]);
+      expect(() => bus.claimTask(b.id, "bob")).toThrow(/not claimable/);
+    });
+
+    it("should emit task:unblocked once every dependency has completed", () => {
+      const a = bus.createTask("Task A", "lead");
+      const b = bus.createTask("Task B", "lead");
+      const c = bus.createTask("Task C", "lead", { dependsOn: [a.id, b.id], assignee: "bob" });
+      const unblocked: Array<[string, string[]]> = [];
+      bus.on("task:unblocked", (t, deps) => unblocked.push([t.id, deps.map((d: { id: string }) => d.id)]));
+
+      bus.claimTask(a.id, "alice");
+      bus.completeTask(a.id, "alice", "A done");
+      expect(unblocked).toHaveLength(0);
+
+      bus.claimTask(b.id, "alice");
+      bus.completeTask(b.id, "alice", "B done");
+      expect(unblocked).toEqual([[c.id, [a.id, b.id]]]);
+    });
+
+    it("should emit task:unblocked when a parent dependency rolls up", () => {
+      const epic = bus.createTask("Epic", "lead");
+      const step = bus.createTask("Step", "lead", { parentId: epic.id });
+      const after = bus.createTask("After epic", "lead", { dependsOn: [epic.id] });
+      const unblocked: string[] = [];
+      bus.on("task:unblocked", (t) => unblocked.push(t.id));
+
+      bus.claimTask(step.id, "alice");
+      bus.completeTask(step.id, "alice", "done");
+      expect(unblocked).toEqual([after.id]);
+    });
+
+    it("should not block dependents while the upstream task is being retried", () => {
+      const a = bus.createTask("Task A", "lead", { maxAttempts: 2 });
+      const b = bus.createTask("Task B", "lead", { dependsOn: [a.id] });
+      bus.claimTask(a.id, "alice");
+      bus.failTask(a.id, "alice", "flaky");
+      expect(b.status).toBe("pending");
+    });
+  });
+
+  // ── Subtasks ────────────────────────────────────────────────
+
+  describe("Subtasks", () => {
+    it("should create subtasks under an existing parent", () => {
+      const epic = bus.createTask("Epic", "lead");
+      const step = bus.createTask("Step 1", "lead", { parentId: epic.id });
+      expect(step.parentId).toBe(epic.id);
+      expect(bus.getSubtasks(epic.id)).toEqual([step]);
+      expect(() => bus.createTask("Orphan", "lead", { parentId: "task-999" })).toThrow(
+        'Parent task "task-999" not found',
+      );
+    });
+
+    it("should not allow claiming a parent that has subtasks", () => {
+      const epic = bus.createTask("Epic", "lead");
+      bus.createTask("Step 1", "lead", { parentId: epic.id });
+      expect(() => bus.claimTask(epic.id, "alice")).toThrow(/has subtasks/);
+    });
+
+    it("should roll up to completed when every subtask completes", () => {
+      const epic = bus.createTask("Epic", "lead");
+      const s1 = bus.createTask("Step 1", "lead", { parentId: epic.id });
+      const s2 = bus.createTask("Step 2", "lead", { parentId: epic.id });
+      const completed: string[] = [];
+      bus.on("task:completed", (t) => completed.push(t.id));
+
+      bus.claimTask(s1.id, "alice");
+      bus.completeTask(s1.id, "alice", "one");
+      expect(epic.status).toBe("pending");
+
+      bus.claimTask(s2.id, "bob");
+      bus.completeTask(s2.id, "bob", "two");
+      expect(epic.status).toBe("completed");
+      expect(epic.result).toContain(`- ${s1.id}: one`);
+      expect(completed).toEqual([s1.id, s2.id, epic.id]);
+    });
+
+    it("should roll up to failed once all subtasks settle with a failure", () => {
+      const epic = bus.createTask("Epic", "lead");
+      const s1 = bus.createTask("Step 1", "lead", { parentId: epic.id });
+      const s2 = bus.createTask("Step 2", "lead", { parentId: epic.id });
+      bus.claimTask(s1.id, "alice");
+      bus.failTask(s1.id, "alice", "broken");
+      expect(epic.status).toBe("pending");
+
+      bus.claimTask(s2.id, "bob");
+      bus.completeTask(s2.id, "bob", "fine");
+      expect(epic.status).toBe("failed");
+      expect(epic.result).toContain(`${s1.id} (broken)`);
+    });
+
+    it("should roll up recursively through nested parents", () => {
+      const epic = bus.createTask("Epic", "lead");
+      const story = bus.createTask("Story", "lead", { parentId: epic.id });
+      const step = bus.createTask("Step", "lead", { parentId: story.id });
+      bus.claimTask(step.id, "alice");
+      bus.completeTask(step.id, "alice", "done");
+      expect(story.status).toBe("completed");
+      expect(epic.status).toBe("completed");
+    });
+  });
+
+  // ── Task Retries ────────────────────────────────────────────
+
+  describe("Task Retries", () => {
+    it("should re-queue a failed task while attempts remain", () => {
+      const task = bus.createTask("Flaky", "lead", { maxAttempts: 2 });
+      bus.claimTask(task.id, "alice");
+
+      let retried = false;
+      bus.on("task:retrying", () => { retried = true; });
+      bus.failTask(task.id, "alice", "Timeout");
+
+      expect(task.status).toBe("pending");
+      expect(task.assignee).toBeUndefined();
+      expect(retried).toBe(true);
+      expect(currentAttempt(task)).toBe(2);
+    });
+
+    it("should fail for good once attempts run out", () => {
+      const task = bus.createTask("Flaky", "lead", { maxAttempts: 2 });
+      bus.claimTask(task.id, "alice");
+      bus.failTask(task.id, "alice", "First");
+      bus.claimTask(task.id, "bob");
+      bus.failTask(task.id, "bob", "Second");
+
+      expect(task.status).toBe("failed");
+      expect(task.result).toBe("Second");
+      expect(currentAttempt(task)).toBe(2);
+      expect(task.attempts.map((a) => [a.assignee, a.outcome, a.reason])).toEqual([
+        ["alice", "failed", "First"],
+        ["bob", "failed", "Second"],
+      ]);
+    });
+
+    it("should not allow a claim before the backoff delay has passed", () => {
+      vi.useFakeTimers();
+      try {
+        const task = bus.createTask("Flaky", "lead", { maxAttempts: 3, backoffMs: 1000 });
+        bus.claimTask(task.id, "alice");
+        bus.failTask(task.id, "alice", "First");
+        expect(() => bus.claimTask(task.id, "bob")).toThrow(/backing off/);
+
+        vi.advanceTimersByTime(1000);
+        bus.claimTask(task.id, "bob");
+        bus.failTask(task.id, "bob", "Second");
+
+        // Backoff doubles after the second failure
+        vi.advanceTimersByTime(1999);
+        expect(() => bus.claimTask(task.id, "alice")).toThrow(/backing off/);
+        vi.advanceTimersByTime(1);
+        expect(bus.claimTask(task.id, "alice").status).toBe("in-progress");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should not count released claims as failed attempts", () => {
+      const task = bus.createTask("Task A", "lead");
+      bus.claimTask(task.id, "bob");
+      bus.unregisterAgent("bob");
+      bus.claimTask(task.id, "alice");
+      bus.completeTask(task.id, "alice", "Done");
+
+      expect(task.attempts.map((a) => a.outcome)).toEqual(["released", "completed"]);
+      expect(currentAttempt(task)).toBe(1);
+    });
+  });
+
+  // ── Task Leases ─────────────────────────────────────────────
+
+  describe("Task Leases", () => {
+    it("should set a lease when a task is claimed", () => {
+      const leased = new MessageBus(undefined, { leaseMs: 1000 });
+      const task = leased.createTask("Task A", "lead");
+      leased.claimTask(task.id, "alice");
+      expect(task.leaseExpiresAt).toBe(task.updatedAt + 1000);
+    });
+
+    it("should reclaim expired leases and emit task:released", () => {
+      const leased = new MessageBus(undefined, { leaseMs: 1000 });
+      const task = leased.createTask("Task A", "lead");
+      leased.claimTask(task.id, "alice");
+
+      const released: string[] = [];
+      leased.on("task:released", (t, prev, reason) => released.push(`${t.id}:${prev}:${reason}`));
+
+      expect(leased.reclaimExpiredLeases(task.leaseExpiresAt! - 1)).toHaveLength(0);
+      expect(leased.reclaimExpiredLeases(task.leaseExpiresAt!)).toHaveLength(1);
+      expect(task.status).toBe("pending");
+      expect(task.assignee).toBeUndefined();
+      expect(released).toEqual([`${task.id}:alice:lease-expired`]);
+    });
+
+    it("should renew leases on heartbeat", () => {
+      const leased = new MessageBus(undefined, { leaseMs: 1000 });
+      const task = leased.createTask("Task A", "lead");
+      leased.claimTask(task.id, "alice");
+      const later = task.leaseExpiresAt! + 500;
+
+      expect(leased.heartbeat("alice", later)).toBe(1);
+      expect(leased.reclaimExpiredLeases(later)).toHaveLength(0);
+      expect(task.status).toBe("in-progress");
+    });
+
+    it("should clear the lease when a task completes", () => {
+      const task = bus.createTask("Task A", "lead");
+      bus.claimTask(task.id, "alice");
+      bus.completeTask(task.id, "alice", "Done");
+      expect(task.leaseExpiresAt).toBeUndefined();
+      expect(bus.reclaimExpiredLeases(Number.MAX_SAFE_INTEGER)).toHaveLength(0);
+    });
+
+    it("should release an agent's tasks when it is unregistered", () => {
+      const task = bus.createTask("Task A", "lead");
+      bus.claimTask(task.id, "bob");
+      const reasons: string[] = [];
+      bus.on("task:released", (_t, _prev, reason) => reasons.push(reason));
+
+      expect(bus.unregisterAgent("bob").map((t) => t.id)).toEqual([task.id]);
+      expect(bus.getTask(task.id)?.status).toBe("pending");
+      expect(reasons).toEqual(["unregistered"]);
+    });
   });
 
   // ── Task Filtering ──────────────────────────────────────────
 
+  describe("Structured Results", () => {
+    const schema = {
+      type: "object",
+      properties: { files: { type: "array", items: { type: "string" } } },
+      required: ["files"],
+    };
+
+    it("should store data and artifacts on completion", () => {
+      const task = bus.createTask("Task A", "lead");
+      bus.claimTask(task.id, "alice");
+      bus.completeTask(task.id, "alice", "done", {
+        data: { ok: true },
+        artifacts: [{ name: "patch", kind: "diff", content: "--- a\n+++ b" }],
+      });
+
+      const res = bus.getTaskResult(task.id);
+      expect(res.data).toEqual({ ok: true });
+      expect(res.artifacts).toHaveLength(1);
+      expect(res.artifacts[0]).toMatchObject({ name: "patch", kind: "diff", createdBy: "alice" });
+    });
+
+    it("should validate data against the declared schema", () => {
+      const task = bus.createTask("Task A", "lead", { resultSchema: schema });
+      bus.claimTask(task.id, "alice");
+      expect(() => bus.completeTask(task.id, "alice", "done")).toThrow(/requires structured/);
+      expect(() => bus.completeTask(task.id, "alice", "done", { data: { files: [1] } })).toThrow(
+        /does not match its schema/,
+      );
+      expect(bus.getTask(task.id)?.status).toBe("in-progress");
+
+      bus.completeTask(task.id, "alice", "done", { data: { files: ["a.ts"] } });
+      expect(bus.getTask(task.id)?.status).toBe("completed");
+    });
+
+    it("should reject an invalid schema at creation", () => {
+      expect(() => bus.createTask("Task A", "lead", { resultSchema: { type: "nonsense" } })).toThrow(
+        /Invalid result schema/,
+      );
+    });
+
+    it("should reject duplicate artifact names", () => {
+      const task = bus.createTask("Task A", "lead");
+      bus.claimTask(task.id, "alice");
+      const artifact = { name: "x", kind: "text" as const, content: "1" };
+      expect(() =>
+        bus.completeTask(task.id, "alice", "done", { artifacts: [artifact, artifact] }),
+      ).toThrow(/Duplicate artifact/);
+    });
+  });
+
+  describe("Task Cancellation", () => {
+    it("should cascade to subtasks and dependents", () => {
+      const epic = bus.createTask("Epic", "lead");
+      const step = bus.createTask("Step", "lead", { parentId: epic.id });
+      const after = bus.createTask("After epic", "lead", { dependsOn: [epic.id] });
+      const unrelated = bus.createTask("Unrelated", "lead");
+
+      const cancelled = bus.cancelTask(epic.id, "lead", "scope changed");
+      expect(cancelled.map((t) => t.id)).toEqual([epic.id, step.id, after.id]);
+      expect(bus.getTask(step.id)?.status).toBe("cancelled");
+      expect(bus.getTask(after.id)?.result).toBe(`Cancelled by lead: scope changed (via ${epic.id})`);
+      expect(bus.getTask(unrelated.id)?.status).toBe("pending");
+    });
+
+    it("should report the interrupted assignee of in-progress work", () => {
+      const task = bus.createTask("Task A", "lead");
+      bus.claimTask(task.id, "alice");
+      const events: Array<[string, string | undefined]> = [];
+      bus.on("task:cancelled", (t, interrupted) => events.push([t.id, interrupted]));
+
+      bus.cancelTask(task.id, "lead");
+      expect(events).toEqual([[task.id, "alice"]]);
+      expect(bus.getTask(task.id)?.attempts[0].outcome).toBe("cancelled");
+      expect(() => bus.completeTask(task.id, "alice", "done")).toThrow();
+    });
+
+    it("should not cancel finished tasks", () => {
+      const task = bus.createTask("Task A", "lead");
+      bus.claimTask(task.id, "alice");
+      bus.completeTask(task.id, "alice", "done");
+      expect(() => bus.cancelTask(task.id, "lead")).toThrow(/cannot be cancelled/);
+    });
+
+    it("should settle a parent without its cancelled subtasks", () => {
+      const epic = bus.createTask("Epic", "lead");
+      const keep = bus.createTask("Keep", "lead", { parentId: epic.id });
+      const drop = bus.createTask("Drop", "lead", { parentId: epic.id });
+      bus.cancelTask(drop.id, "lead");
+      expect(bus.getTask(epic.id)?.status).toBe("pending");
+
+      bus.claimTask(keep.id, "alice");
+      bus.completeTask(keep.id, "alice", "done");
+      expect(bus.getTask(epic.id)?.status).toBe("completed");
+    });
+
+    it("should cancel a parent once all its subtasks are cancelled", () => {
+      const epic = bus.createTask("Epic", "lead");
+      const step = bus.createTask("Step", "lead", { parentId: epic.id });
+      bus.cancelTask(step.id, "lead");
+      expect(bus.getTask(epic.id)?.status).toBe("cancelled");
+    });
+
+    it("should reject new dependencies on a cancelled task", () => {
+      const task = bus.createTask("Task A", "lead");
+      bus.cancelTask(task.id, "lead");
+      expect(() => bus.createTask("Task B", "lead", { dependsOn: [task.id] })).toThrow(/can never complete/);
+    });
+  });
+
   describe("Task Filtering", () => {
     it("should list all tasks", () => {
       bus.createTask("Task A", "lead");
@@ -183,10 +961,180 @@ describe("MessageBus", () => {
       expect(bus.listTasks({ assignee: "alice" })).toHaveLength(1);
       expect(bus.listTasks({ assignee: "bob" })).toHaveLength(0);
     });
+
+    it("should filter by creator, dependency and parent", () => {
+      const epic = bus.createTask("Epic", "lead");
+      const step = bus.createTask("Step", "alice", { parentId: epic.id });
+      const after = bus.createTask("After", "lead", { dependsOn: [step.id] });
+      expect(bus.listTasks({ createdBy: "alice" }).map((t) => t.id)).toEqual([step.id]);
+      expect(bus.listTasks({ dependsOn: step.id }).map((t) => t.id)).toEqual([after.id]);
+      expect(bus.listTasks({ parentId: epic.id }).map((t) => t.id)).toEqual([step.id]);
+      expect(bus.listTasks({ parentId: null }).map((t) => t.id)).toEqual([epic.id, after.id]);
+    });
+
+    it("should search descriptions case-insensitively", () => {
+      bus.createTask("Build Login page", "lead");
+      bus.createTask("Write API docs", "lead");
+      expect(bus.listTasks({ search: "login" }).map((t) => t.description)).toEqual(["Build Login page"]);
+    });
+
+    it("should sort and page results", () => {
+      const ids = ["A", "B", "C", "D"].map((d) => bus.createTask(`Task ${d}`, "lead").id);
+      const page = bus.queryTasks({ order: "desc", limit: 2, offset: 1 });
+      expect(page.total).toBe(4);
+      expect(page.tasks.map((t) => t.id)).toEqual([ids[2], ids[1]]);
+    });
   });
 
   // ── Events ──────────────────────────────────────────────────
 
+  describe("Blackboard", () => {
+    it("should version every write", () => {
+      bus.writeBlackboard("api/contract", { path: "/users" }, "alice");
+      const entry = bus.writeBlackboard("api/contract", { path: "/v2/users" }, "bob");
+      expect(entry).toMatchObject({ version: 2, updatedBy: "bob", value: { path: "/v2/users" } });
+      expect(bus.readBlackboard("api/contract")?.version).toBe(2);
+    });
+
+    it("should reject a compare-and-swap at a stale version", () => {
+      bus.writeBlackboard("lib", "zod", "alice", 0);
+      expect(() => bus.writeBlackboard("lib", "yup", "bob", 0)).toThrow(/expected 0, current is 1/);
+      bus.writeBlackboard("lib", "valibot", "bob", 1);
+      expect(bus.readBlackboard("lib")?.value).toBe("valibot");
+    });
+
+    it("should list entries by prefix in key order", () => {
+      bus.writeBlackboard("decisions/b", 2, "lead");
+      bus.writeBlackboard("decisions/a", 1, "lead");
+      bus.writeBlackboard("other", 3, "lead");
+      expect(bus.listBlackboard("decisions/").map((e) => e.key)).toEqual(["decisions/a", "decisions/b"]);
+    });
+
+    it("should emit blackboard:changed with the previous entry", () => {
+      const events: Array<[number, number | undefined]> = [];
+      bus.on("blackboard:changed", (entry, previous) => events.push([entry.version, previous?.version]));
+      bus.writeBlackboard("k", 1, "lead");
+      bus.writeBlackboard("k", 2, "lead");
+      expect(events).toEqual([[1, undefined], [2, 1]]);
+    });
+
+    it("should reject invalid keys", () => {
+      expect(() => bus.writeBlackboard("has space", 1, "lead")).toThrow(/Invalid blackboard key/);
+    });
+  });
+
+  describe("Resource Locks", () => {
+    it("should refuse overlapping locks held by someone else", () => {
+      bus.acquireLock("alice", "src/api/**");
+      expect(() => bus.acquireLock("bob", "src/api/users.ts")).toThrow(/locked by "alice"/);
+      expect(() => bus.acquireLock("bob", "src")).toThrow(/locked by "alice"/);
+      expect(bus.acquireLock("bob", "src/ui/App.tsx").owner).toBe("bob");
+    });
+
+    it("should let a **/ glob match files directly in its base directory", () => {
+      bus.acquireLock("alice", "lib/**/*.ts");
+      expect(() => bus.acquireLock("bob", "lib/x.ts")).toThrow(/locked by "alice"/);
+      expect(() => bus.acquireLock("bob", "lib/deep/er/x.ts")).toThrow(/locked by "alice"/);
+      expect(bus.acquireLock("bob", "lib/x.js").owner).toBe("bob");
+    });
+
+    it("should treat a directory lock as covering its contents", () => {
+      bus.acquireLock("alice", "./src/api/");
+      expect(() => bus.acquireLock("bob", "src/api/users.ts")).toThrow();
+      expect(() => bus.acquireLock("bob", "src/*.ts")).not.toThrow();
+    });
+
+    it("should record contention on the held lock", () => {
+      bus.acquireLock("alice", "README.md");
+      expect(() => bus.acquireLock("bob", "README.md")).toThrow();
+      expect(bus.listLocks()[0].contenders).toEqual(["bob"]);
+    });
+
+    it("should renew a lock for its owner and expire it after the TTL", () => {
+      bus.acquireLock("alice", "a.ts", { ttlMs: 1000 }, 0);
+      bus.acquireLock("alice", "a.ts", { ttlMs: 1000 }, 500);
+      expect(bus.listLocks(1200)).toHaveLength(1);
+      expect(bus.listLocks(1500)).toHaveLength(0);
+      expect(bus.acquireLock("bob", "a.ts", undefined, 1500).owner).toBe("bob");
+    });
+
+    it("should only let the owner release a lock", () => {
+      bus.acquireLock("alice", "a.ts");
+      expect(() => bus.releaseLock("bob", "a.ts")).toThrow(/not "bob"/);
+      bus.releaseLock("alice", "a.ts");
+      expect(bus.listLocks()).toHaveLength(0);
+    });
+
+    it("should release an agent's locks when it is unregistered", () => {
+      bus.acquireLock("bob", "a.ts");
+      bus.unregisterAgent("bob");
+      expect(bus.listLocks()).toHaveLength(0);
+    });
+  });
+
+  describe("Polls", () => {
+    it("should close with a tally once every voter has voted", () => {
+      const tallies: unknown[] = [];
+      bus.on("poll:closed", (_poll, tally) => tallies.push(tally));
+      const poll = bus.startPoll("lead", "Which DB?", ["Postgres", "SQLite"], { deadlineMs: 60_000 });
+      expect(poll.voters).toEqual(["alice", "bob"]);
+
+      bus.castVote(poll.id, "alice", "postgres", "needs concurrency");
+      expect(tallies).toHaveLength(0);
+      bus.castVote(poll.id, "bob", "1", "same");
+
+      expect(bus.getPoll(poll.id)?.status).toBe("closed");
+      expect(tallies[0]).toMatchObject({
+        reason: "all-voted",
+        winner: "Postgres",
+        counts: [
+          { option: "Postgres", votes: 2, voters: ["alice", "bob"] },
+          { option: "SQLite", votes: 0, voters: [] },
+        ],
+        missing: [],
+      });
+    });
+
+    it("should close at the deadline and report a tie and missing voters", () => {
+      vi.useFakeTimers();
+      try {
+        bus.registerAgent("carol");
+        let tally: { reason: string; tied: string[]; missing: string[]; winner?: string } | undefined;
+        bus.on("poll:closed", (_poll, t) => (tally = t));
+        const poll = bus.startPoll("lead", "Tabs or spaces?", ["Tabs", "Spaces"], { deadlineMs: 1000 });
+        bus.castVote(poll.id, "alice", "Tabs", "a");
+        bus.castVote(poll.id, "bob", "Spaces", "b");
+        vi.advanceTimersByTime(1000);
+
+        expect(tally).toMatchObject({ reason: "deadline", tied: ["Tabs", "Spaces"], missing: ["carol"] });
+        expect(tally?.winner).toBeUndefined();
+        expect(() => bus.castVote(poll.id, "carol", "Tabs", "late")).toThrow(/closed/);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should let a voter change its vote", () => {
+      const poll = bus.startPoll("lead", "Q", ["A", "B"], { deadlineMs: 60_000, voters: ["alice", "bob"] });
+      bus.castVote(poll.id, "alice", "A", "first");
+      bus.castVote(poll.id, "alice", "B", "changed my mind");
+      expect(bus.getPoll(poll.id)?.votes).toEqual([expect.objectContaining({ voter: "alice", option: "B" })]);
+    });
+
+    it("should reject non-voters and unknown options", () => {
+      const poll = bus.startPoll("lead", "Q", ["A", "B"], { deadlineMs: 60_000, voters: ["alice"] });
+      expect(() => bus.castVote(poll.id, "bob", "A", "x")).toThrow(/not a voter/);
+      expect(() => bus.castVote(poll.id, "alice", "C", "x")).toThrow(/not an option/);
+    });
+
+    it("should close when the last missing voter is unregistered", () => {
+      const poll = bus.startPoll("lead", "Q", ["A", "B"], { deadlineMs: 60_000 });
+      bus.castVote(poll.id, "alice", "A", "x");
+      bus.unregisterAgent("bob");
+      expect(bus.getPoll(poll.id)?.status).toBe("closed");
+    });
+  });
+
   describe("Events", () => {
     it("should emit message event on sendMessage", () => {
       let emitted = false;
@@ -222,5 +1170,15 @@ describe("MessageBus", () => {
       expect(bus.getRegisteredAgents()).toHaveLength(0);
       expect(bus.listTasks()).toHaveLength(0);
     });
+
+    it("should clear channels, blackboard and locks on reset", () => {
+      bus.joinChannel("alice", "frontend");
+      bus.writeBlackboard("k", 1, "lead");
+      bus.acquireLock("alice", "a.ts");
+      bus.reset();
+      expect(bus.getChannels()).toEqual([]);
+      expect(bus.listBlackboard()).toEqual([]);
+      expect(bus.listLocks()).toEqual([]);
+    });
   });
 });
@@ -7,7 +7,7 @@
  */
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { MessageBus } from "../message-bus.js";
-import { MessagePoller, type SendToAgentFn } from "../message-poller.js";
+import { MessagePoller, type PromptOutcome, type SendToAgentFn } from "../message-poller.js";
 import type { ManagedAgent, AgentInfo } from "../agent-session.js";
 
 /** Create a minimal ManagedAgent stub. */
@@ -119,9 +119,10 @@ describe("MessagePoller", () => {
 
     await vi.advanceTimersByTimeAsync(150);
 
-    // Error is logged but messages are NOT re-queued (they were already read)
+    // Error is logged and the message is dropped, not re-queued
     expect(errors.some((e) => e.includes("delivery failed"))).toBe(true);
     expect(bus.hasUnreadMessages("bob")).toBe(false);
+    expect(bus.getDeliveryStatus(bus.queryMessages({ participant: "bob" })[0].id)[0].state).toBe("dropped");
 
     poller.stopAll();
   });
@@ -178,4 +179,202 @@ describe("MessagePoller", () => {
 
     expect(delivered).toHaveLength(0);
   });
+
+  // ── Push mode ───────────────────────────────────────────────
+
+  describe("push mode", () => {
+    it("should deliver on the message event after the debounce window", async () => {
+      bus.registerAgent("alice");
+      bus.registerAgent("bob");
+
+      const delivered: string[] = [];
+      const poller = new MessagePoller(
+        bus,
+        { mode: "push", pollIntervalMs: 10_000, debounceMs: 50, log: noop },
+        async (_agent, prompt) => { delivered.push(prompt); },
+      );
+      poller.startPolling(stubAgent("bob", "Bob"));
+
+      bus.sendMessage("alice", "bob", "Hello Bob");
+      await vi.advanceTimersByTimeAsync(40);
+      expect(delivered).toHaveLength(0);
+
+      await vi.advanceTimersByTimeAsync(20);
+      expect(delivered).toHaveLength(1);
+      expect(delivered[0]).toContain("Hello Bob");
+
+      poller.stopAll();
+    });
+
+    it("should coalesce a burst of messages into one prompt", async () => {
+      bus.registerAgent("alice");
+      bus.registerAgent("bob");
+
+      const delivered: string[] = [];
+      const poller = new MessagePoller(
+        bus,
+        { mode: "push", pollIntervalMs: 10_000, debounceMs: 50, log: noop },
+        async (_agent, prompt) => { delivered.push(prompt); },
+      );
+      poller.startPolling(stubAgent("bob", "Bob"));
+
+      bus.sendMessage("alice", "bob", "one");
+      await vi.advanceTimersByTimeAsync(30);
+      bus.sendMessage("alice", "bob", "two");
+      await vi.advanceTimersByTimeAsync(30);
+      bus.sendMessage("alice", "bob", "three");
+      await vi.advanceTimersByTimeAsync(60);
+
+      expect(delivered).toHaveLength(1);
+      expect(delivered[0]).toContain("3 new message(s)");
+
+      poller.stopAll();
+    });
+
+    it("should deliver broadcasts to every watched agent except the sender", async () => {
+      bus.registerAgent("lead");
+      bus.registerAgent("alice");
+      bus.registerAgent("bob");
+
+      const recipients: string[] = [];
+      const poller = new MessagePoller(
+        bus,
+        { mode: "push", pollIntervalMs: 10_000, debounceMs: 10, log: noop },
+        async (agent) => { recipients.push(agent.info.id); },
+      );
+      poller.startPolling(stubAgent("lead", "Lead"));
+      poller.startPolling(stubAgent("alice", "Alice"));
+      poller.startPolling(stubAgent("bob", "Bob"));
+
+      bus.sendMessage("lead", "*", "Team update");
+      await vi.advanceTimersByTimeAsync(20);
+
+      expect(recipients.sort()).toEqual(["alice", "bob"]);
+
+      poller.stopAll();
+    });
+
+    it("should deliver mail already waiting when watching starts", async () => {
+      bus.registerAgent("alice");
+      bus.registerAgent("bob");
+      bus.sendMessage("alice", "bob", "sent before watch");
+
+      const delivered: string[] = [];
+      const poller = new MessagePoller(
+        bus,
+        { mode: "push", pollIntervalMs: 10_000, debounceMs: 10, log: noop },
+        async (_agent, prompt) => { delivered.push(prompt); },
+      );
+      poller.startPolling(stubAgent("bob", "Bob"));
+
+      await vi.advanceTimersByTimeAsync(20);
+      expect(delivered).toHaveLength(1);
+
+      poller.stopAll();
+    });
+
+    it("should cancel a pending delivery when stopPolling is called", async () => {
+      bus.registerAgent("alice");
+      bus.registerAgent("bob");
+
+      const delivered: string[] = [];
+      const poller = new MessagePoller(
+        bus,
+        { mode: "push", pollIntervalMs: 10_000, debounceMs: 50, log: noop },
+        async (_agent, prompt) => { delivered.push(prompt); },
+      );
+      poller.startPolling(stubAgent("bob", "Bob"));
+
+      bus.sendMessage("alice", "bob", "Hello Bob");
+      poller.stopPolling("bob");
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(delivered).toHaveLength(0);
+      expect(bus.hasUnreadMessages("bob")).toBe(true);
+
+      poller.stopAll();
+    });
+  });
+
+  it("should group replies under their thread with the opening message quoted", async () => {
+    bus.registerAgent("lead");
+    bus.registerAgent("alice");
+    bus.registerAgent("bob");
+
+    const delivered: string[] = [];
+    const poller = new MessagePoller(
+      bus,
+      { pollIntervalMs: 100, log: noop },
+      async (_agent, prompt) => { delivered.push(prompt); },
+    );
+
+    const q1 = bus.sendMessage("lead", "alice", "What is the API shape?");
+    const q2 = bus.sendMessage("lead", "bob", "Which DB should we use?");
+    bus.readMessages("alice");
+    bus.readMessages("bob");
+    bus.replyToMessage("bob", q2.id, "Postgres");
+    bus.replyToMessage("alice", q1.id, "REST with JSON");
+
+    poller.startPolling(stubAgent("lead", "Lead"));
+    await vi.advanceTimersByTimeAsync(150);
+
+    expect(delivered).toHaveLength(1);
+    const prompt = delivered[0];
+    expect(prompt).toContain(`── Thread ${q2.id} (started by lead: "Which DB should we use?") ──`);
+    expect(prompt).toContain(`from bob, in reply to ${q2.id}]: Postgres`);
+    expect(prompt).toContain(`── Thread ${q1.id} (started by lead: "What is the API shape?") ──`);
+    expect(prompt.indexOf("Postgres")).toBeLessThan(prompt.indexOf("REST with JSON"));
+
+    poller.stopAll();
+  });
+
+  it("should record the sendToAgent outcome as the delivery state", async () => {
+    bus.registerAgent("alice");
+    bus.registerAgent("bob");
+
+    const outcomes: PromptOutcome[] = ["processed", "dropped", "enqueued", "failed"];
+    const poller = new MessagePoller(
+      bus,
+      { pollIntervalMs: 100, log: noop },
+      async () => outcomes.shift(),
+    );
+    poller.startPolling(stubAgent("bob", "Bob"));
+
+    const sent = [];
+    for (const content of ["One", "Two", "Three", "Four"]) {
+      sent.push(bus.sendMessage("alice", "bob", content));
+      await vi.advanceTimersByTimeAsync(150);
+    }
+
+    const [processed, dropped, enqueued, failed] = sent.map((m) => bus.getDeliveryStatus(m.id)[0]);
+    expect(processed.state).toBe("read");
+    expect(dropped).toMatchObject({ state: "dropped", reason: "Bob could not take another turn" });
+    expect(enqueued.state).toBe("read");
+    expect(failed).toMatchObject({ state: "dropped", reason: "Bob's turn failed" });
+
+    poller.stopAll();
+  });
+
+  it("should not let messages enqueued to a busy agent count as backlog", async () => {
+    bus = new MessageBus(undefined, { backlogLimit: 3 });
+    bus.registerAgent("alice");
+    bus.registerAgent("lead");
+
+    const poller = new MessagePoller(
+      bus,
+      { pollIntervalMs: 100, log: noop },
+      async () => "enqueued",
+    );
+    poller.startPolling(stubAgent("lead", "Lead"));
+
+    for (let i = 0; i < 4; i++) {
+      bus.sendMessage("alice", "lead", `Update ${i}`);
+      await vi.advanceTimersByTimeAsync(150);
+    }
+
+    expect(bus.checkBackpressure("alice", "lead")).toBeUndefined();
+    expect(() => bus.sendMessage("alice", "lead", "Still reachable")).not.toThrow();
+
+    poller.stopAll();
+  });
 });
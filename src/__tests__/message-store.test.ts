@@ -0,0 +1,193 @@
+/**
+ * MessageStore — unit tests for bus persistence and crash-safe restore
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { MessageBus } from "../message-bus.js";
+import { InMemoryMessageStore, JsonlMessageStore } from "../message-store.js";
+
+describe("JsonlMessageStore", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "bus-store-"));
+    file = path.join(dir, "bus.jsonl");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should append one JSON line per record", () => {
+    const store = new JsonlMessageStore(file);
+    store.append({ type: "agent:registered", agentId: "lead" });
+    store.append({ type: "agent:registered", agentId: "alice" });
+    const lines = fs.readFileSync(file, "utf8").trim().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1])).toEqual({ type: "agent:registered", agentId: "alice" });
+  });
+
+  it("should return no records when the file does not exist", () => {
+    expect(new JsonlMessageStore(file).load()).toEqual([]);
+  });
+
+  it("should drop a torn final line", () => {
+    const store = new JsonlMessageStore(file);
+    store.append({ type: "agent:registered", agentId: "lead" });
+    fs.appendFileSync(file, '{"type":"agent:regis');
+    expect(store.load()).toHaveLength(1);
+  });
+
+  it("should throw on corruption before the final line", () => {
+    fs.writeFileSync(file, 'garbage\n{"type":"agent:registered","agentId":"lead"}\n');
+    expect(() => new JsonlMessageStore(file).load()).toThrow(/line 1/);
+  });
+
+  it("should restore tasks, counters and unread mail into a new bus", () => {
+    const bus = new MessageBus(new JsonlMessageStore(file));
+    bus.registerAgent("lead");
+    bus.registerAgent("alice");
+    const t1 = bus.createTask("Task A", "lead");
+    bus.createTask("Task B", "lead", { dependsOn: [t1.id] });
+    bus.claimTask(t1.id, "alice");
+    bus.sendMessage("lead", "alice", "read me");
+    bus.readMessages("alice");
+    bus.sendMessage("alice", "lead", "unread");
+
+    // Simulate a crash: a new process opens the same file
+    const restored = new MessageBus(new JsonlMessageStore(file));
+    const summary = restored.restore();
+
+    expect(summary.agents).toEqual(["lead", "alice"]);
+    expect(summary.tasks).toBe(2);
+    expect(summary.unreadMessages).toBe(1);
+    expect(restored.getTask(t1.id)?.status).toBe("in-progress");
+    expect(restored.readMessages("lead")[0].content).toBe("unread");
+    expect(restored.hasUnreadMessages("alice")).toBe(false);
+    expect(restored.queryMessages().map((m) => m.content)).toEqual(["read me", "unread"]);
+
+    // Counters continue instead of reusing IDs
+    expect(restored.createTask("Task C", "lead").id).toBe("task-3");
+    expect(restored.sendMessage("lead", "alice", "next").id).toBe("msg-3");
+  });
+
+  it("should queue mail that was in flight at crash time again", () => {
+    const bus = new MessageBus(new JsonlMessageStore(file));
+    bus.registerAgent("lead");
+    bus.registerAgent("alice");
+    const msg = bus.sendMessage("alice", "lead", "in flight");
+    bus.takeMessages("lead");
+
+    const restored = new MessageBus(new JsonlMessageStore(file));
+    expect(restored.restore().unreadMessages).toBe(1);
+    expect(restored.getDeliveryStatus(msg.id)[0].state).toBe("queued");
+    expect(restored.takeMessages("lead").map((m) => m.content)).toEqual(["in flight"]);
+  });
+
+  it("should restore bounces to agents that had shut down", () => {
+    const bus = new MessageBus(new JsonlMessageStore(file));
+    bus.registerAgent("lead");
+    bus.registerAgent("alice");
+    bus.unregisterAgent("alice");
+    const msg = bus.sendMessage("lead", "alice", "too late");
+
+    const restored = new MessageBus(new JsonlMessageStore(file));
+    restored.restore();
+    expect(restored.getDeliveryStatus(msg.id)[0]).toMatchObject({
+      state: "dropped",
+      reason: '"alice" has been shut down',
+    });
+    expect(restored.sendMessage("lead", "alice", "again").id).not.toBe(msg.id);
+  });
+
+  it("should restore task artifacts", () => {
+    const bus = new MessageBus(new JsonlMessageStore(file));
+    const task = bus.createTask("Task A", "lead");
+    bus.claimTask(task.id, "alice");
+    bus.completeTask(task.id, "alice", "done", {
+      data: { n: 1 },
+      artifacts: [{ name: "path", kind: "file", content: "src/a.ts" }],
+    });
+
+    const restored = new MessageBus(new JsonlMessageStore(file));
+    restored.restore();
+    const res = restored.getTaskResult(task.id);
+    expect(res.data).toEqual({ n: 1 });
+    expect(res.artifacts.map((a) => a.content)).toEqual(["src/a.ts"]);
+  });
+
+  it("should keep compacted messages out of restored mailboxes", () => {
+    const bus = new MessageBus(new JsonlMessageStore(file), { maxMailboxMessages: 1 });
+    bus.registerAgent("lead");
+    bus.registerAgent("alice");
+    const first = bus.sendMessage("lead", "alice", "first");
+    bus.sendMessage("lead", "alice", "second");
+    bus.readMessages("alice");
+
+    const restored = new MessageBus(new JsonlMessageStore(file));
+    restored.restore();
+    expect(restored.getMailbox("alice").map((m) => m.content)).toEqual(["second"]);
+    expect(() => restored.getDeliveryStatus(first.id)).toThrow(/not found/);
+    expect(restored.queryMessages({ participant: "alice" })).toHaveLength(2);
+  });
+
+  it("should archive a non-empty log so a fresh run starts empty", () => {
+    const bus = new MessageBus(new JsonlMessageStore(file));
+    expect(bus.archiveStore()).toBeUndefined();
+    bus.createTask("old run", "lead");
+
+    const archived = bus.archiveStore();
+    expect(archived).toMatch(/bus\.jsonl\.\d+$/);
+    expect(new JsonlMessageStore(archived!).load()).toHaveLength(1);
+
+    const fresh = new MessageBus(new JsonlMessageStore(file));
+    fresh.createTask("new run", "lead");
+    const restored = new MessageBus(new JsonlMessageStore(file));
+    restored.restore();
+    expect(restored.listTasks().map((t) => t.description)).toEqual(["new run"]);
+  });
+
+  it("should clear the file on reset", () => {
+    const bus = new MessageBus(new JsonlMessageStore(file));
+    bus.registerAgent("lead");
+    bus.createTask("Task A", "lead");
+    bus.reset();
+    expect(new JsonlMessageStore(file).load()).toEqual([]);
+  });
+});
+
+describe("InMemoryMessageStore", () => {
+  it("should not be durable", () => {
+    expect(new InMemoryMessageStore().durable).toBe(false);
+    expect(new MessageBus().isDurable).toBe(false);
+  });
+
+  it("should not keep records", () => {
+    const store = new InMemoryMessageStore();
+    const bus = new MessageBus(store);
+    bus.registerAgent("alice");
+    bus.createTask("Task A", "lead");
+    expect(store.load()).toEqual([]);
+    expect(store.archive()).toBeUndefined();
+  });
+});
+
+describe("MessageBus.releaseAgentTasks", () => {
+  it("should return an agent's in-progress tasks to pending", () => {
+    const bus = new MessageBus();
+    const t1 = bus.createTask("Task A", "lead");
+    const t2 = bus.createTask("Task B", "lead");
+    bus.claimTask(t1.id, "alice");
+    bus.claimTask(t2.id, "alice");
+    bus.completeTask(t2.id, "alice", "done");
+
+    const released = bus.releaseAgentTasks("alice");
+    expect(released.map((t) => t.id)).toEqual([t1.id]);
+    expect(bus.getTask(t1.id)?.status).toBe("pending");
+    expect(bus.getTask(t1.id)?.assignee).toBeUndefined();
+    expect(bus.getTask(t2.id)?.status).toBe("completed");
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * ModelRegistry — unit tests for built-in, SDK and configured models
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { ModelInfo } from "@github/copilot-sdk";
+import { ModelRegistry, loadModelConfig } from "../model-registry.js";
+import { AVAILABLE_MODELS } from "../constants.js";
+
+function sdkModel(id: string, multiplier: number, contextTokens: number): ModelInfo {
+  return {
+    id,
+    name: id.toUpperCase(),
+    capabilities: {
+      supports: { vision: false, reasoningEffort: true },
+      limits: { max_context_window_tokens: contextTokens },
+    },
+    billing: { multiplier },
+  };
+}
+
+describe("ModelRegistry", () => {
+  it("should start with the built-in models", () => {
+    const models = new ModelRegistry();
+    expect(models.ids()).toEqual([...AVAILABLE_MODELS]);
+    expect(models.costTier("claude-opus-4.6")).toBe("premium");
+    expect(models.get("claude-haiku-3.5")?.contextTokens).toBeGreaterThan(0);
+  });
+
+  it("should derive short names unless one is configured", () => {
+    const models = new ModelRegistry([{ id: "gpt-6", shortName: "g6" }]);
+    expect(models.shortName("claude-sonnet-4.6")).toBe("sonnet-4.6");
+    expect(models.shortName("gpt-5.3-codex")).toBe("gpt-5.3-codex");
+    expect(models.shortName("gpt-6")).toBe("g6");
+  });
+
+  it("should merge SDK models without overriding the config file", () => {
+    const models = new ModelRegistry([{ id: "claude-sonnet-4.6", costTier: "low" }]);
+    models.mergeSdkModels([
+      sdkModel("claude-sonnet-4.6", 1, 128_000),
+      sdkModel("o9", 3, 64_000),
+      { ...sdkModel("blocked", 1, 1000), policy: { state: "disabled", terms: "" } },
+    ]);
+
+    const sonnet = models.get("claude-sonnet-4.6");
+    expect(sonnet?.costTier).toBe("low");
+    expect(sonnet?.contextTokens).toBe(128_000);
+    expect(sonnet?.capabilities).toEqual(expect.arrayContaining(["code", "reasoning"]));
+    expect(models.get("o9")).toMatchObject({ description: "", costTier: "premium" });
+    expect(models.renderTable()).toContain("| o9 | — | premium | 64k |");
+    expect(models.has("blocked")).toBe(false);
+  });
+
+  it("should weigh requests by multiplier, falling back to the cost tier", () => {
+    const models = new ModelRegistry([{ id: "free-model", requestMultiplier: 0 }]);
+    expect(models.requestMultiplier("claude-opus-4.6")).toBe(3);
+    expect(models.requestMultiplier("claude-sonnet-4.6")).toBe(1);
+    expect(models.requestMultiplier("unknown")).toBe(1);
+    expect(models.cheapest()).toBe("free-model");
+    expect(new ModelRegistry().cheapest()).toBe("claude-haiku-3.5");
+  });
+
+  it("should render a Markdown table with cost and context", () => {
+    const table = new ModelRegistry([{ id: "gpt-6", description: "planning", contextTokens: 1_000_000 }]).renderTable();
+    expect(table).toContain("| Model | Best for | Cost | Context |");
+    expect(table).toContain("| gpt-6 | planning | standard | 1000k |");
+  });
+});
+
+describe("loadModelConfig", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "models-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should read model entries from a JSON file", () => {
+    const file = path.join(dir, "models.json");
+    fs.writeFileSync(file, JSON.stringify({ models: [{ id: "gpt-6", costTier: "premium" }] }));
+    expect(loadModelConfig(file)).toEqual([{ id: "gpt-6", costTier: "premium" }]);
+  });
+
+  it("should reject invalid entries", () => {
+    const file = path.join(dir, "models.json");
+    fs.writeFileSync(file, JSON.stringify({ models: [{ id: "gpt-6", costTier: "free" }] }));
+    expect(() => loadModelConfig(file)).toThrow(/Invalid model config/);
+    expect(() => loadModelConfig(path.join(dir, "missing.json"))).toThrow(/Cannot read model config/);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * ModelRouter — unit tests for keyword-based teammate model selection
+ */
+import { describe, it, expect } from "vitest";
+import { ModelRouter, parseModelRules, seedRulesFromRegistry } from "../model-router.js";
+import { ModelRegistry } from "../model-registry.js";
+import { AVAILABLE_MODELS, DEFAULT_TEAMMATE_MODEL } from "../constants.js";
+
+describe("ModelRouter", () => {
+  const models = new ModelRegistry();
+
+  it("should seed one rule per model from its description", () => {
+    const rules = seedRulesFromRegistry(models);
+    expect(rules.map((r) => r.model)).toEqual([...AVAILABLE_MODELS]);
+    expect(rules.find((r) => r.model === "claude-opus-4.6")?.keywords).toContain("security");
+    expect(rules.flatMap((r) => r.keywords)).not.toContain("recommended");
+  });
+
+  it("should route on role keywords and explain the choice", () => {
+    const choice = new ModelRouter(models).route("security-reviewer", "Look over the login flow");
+    expect(choice.model).toBe("claude-opus-4.6");
+    expect(choice.reason).toBe('role matched "security"');
+  });
+
+  it("should weigh role keywords above prompt keywords", () => {
+    const choice = new ModelRouter(models).route("docs writer", "Review and document the security model");
+    expect(choice.model).toBe("claude-haiku-3.5");
+  });
+
+  it("should fall back to the default teammate model", () => {
+    const choice = new ModelRouter(models).route("helper", "Do whatever the lead asks");
+    expect(choice.model).toBe(DEFAULT_TEAMMATE_MODEL);
+    expect(choice.reason).toMatch(/no routing keyword matched/);
+  });
+
+  it("should let user rules win ties over seeded rules", () => {
+    const router = new ModelRouter(models, parseModelRules("audit|security=claude-haiku-3.5"));
+    expect(router.route("security auditor", "").model).toBe("claude-haiku-3.5");
+  });
+
+  it("should not route on SDK display names, numbers or short words", () => {
+    const extended = new ModelRegistry();
+    extended.mergeSdkModels([
+      {
+        id: "gpt-4.1",
+        name: "GPT-4.1",
+        capabilities: { supports: { vision: false, reasoningEffort: false }, limits: { max_context_window_tokens: 64_000 } },
+      },
+    ]);
+    expect(seedRulesFromRegistry(extended).map((r) => r.model)).not.toContain("gpt-4.1");
+    expect(new ModelRouter(extended).route("writer", "Step 1: draft the intro").model).toBe(DEFAULT_TEAMMATE_MODEL);
+
+    const tagged = new ModelRegistry([{ id: "gpt-6", description: "UI v2 and 3d rendering" }]);
+    expect(seedRulesFromRegistry(tagged).find((r) => r.model === "gpt-6")?.keywords).toEqual(["rendering"]);
+  });
+
+  it("should route to models added to the registry", () => {
+    const extended = new ModelRegistry([{ id: "gpt-6", description: "database migrations" }]);
+    expect(new ModelRouter(extended).route("dba", "Plan the database migration").model).toBe("gpt-6");
+  });
+
+  it("should reject malformed rules and unknown models", () => {
+    expect(parseModelRules(" ; ")).toEqual([]);
+    expect(() => parseModelRules("security")).toThrow(/Invalid model rule/);
+    expect(() => new ModelRouter(models, parseModelRules("security=gpt-0"))).toThrow(/Unknown model "gpt-0"/);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * SpawnQueue — unit tests for teammate slots and queued spawns
+ */
+import { describe, it, expect } from "vitest";
+import { SpawnQueue } from "../spawn-queue.js";
+
+/** A team whose spawns succeed unless their name starts with "bad". */
+function team(limit: number) {
+  const live: string[] = [];
+  const started: string[] = [];
+  const spawn = (name: string) =>
+    queue.reserve(async () => {
+      await Promise.resolve();
+      if (name.startsWith("bad")) throw new Error(`cannot create ${name}`);
+      live.push(name);
+    });
+  const queue: SpawnQueue<string> = new SpawnQueue(limit, () => live.length, async (name) => {
+    started.push(name);
+    await spawn(name).catch(() => {});
+  });
+  return { queue, live, started, spawn };
+}
+
+describe("SpawnQueue", () => {
+  it("should count spawns still creating their session against the limit", async () => {
+    const { queue, spawn } = team(1);
+    const creating = spawn("alice");
+    expect(queue.size).toBe(1);
+    expect(queue.hasRoom).toBe(false);
+    await creating;
+    expect(queue.size).toBe(1);
+  });
+
+  it("should start queued spawns in order once a teammate leaves", async () => {
+    const { queue, live, started } = team(1);
+    live.push("alice");
+    expect(queue.enqueue("bob")).toBe(1);
+    expect(queue.enqueue("carol")).toBe(2);
+
+    live.pop();
+    await queue.drain();
+    expect(started).toEqual(["bob"]);
+    expect(queue.pending).toEqual(["carol"]);
+  });
+
+  it("should give the slot of a failed spawn to the next queued request", async () => {
+    const { queue, live, started, spawn } = team(1);
+    const failing = spawn("bad-alice");
+    queue.enqueue("bob");
+
+    await expect(failing).rejects.toThrow(/cannot create bad-alice/);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(started).toEqual(["bob"]);
+    expect(live).toEqual(["bob"]);
+    expect(queue.pending).toHaveLength(0);
+  });
+
+  it("should forget discarded requests", () => {
+    const { queue } = team(0);
+    queue.enqueue("bob");
+    queue.enqueue("carol");
+    queue.discard((name) => name === "bob");
+    expect(queue.pending).toEqual(["carol"]);
+    queue.clear();
+    expect(queue.pending).toHaveLength(0);
+  });
+});
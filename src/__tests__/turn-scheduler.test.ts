@@ -0,0 +1,56 @@
+/**
+ * TurnScheduler — unit tests for concurrent turn slots
+ */
+import { describe, it, expect } from "vitest";
+import { TurnScheduler } from "../turn-scheduler.js";
+
+describe("TurnScheduler", () => {
+  it("should grant free slots immediately", async () => {
+    const turns = new TurnScheduler(2);
+    expect(await turns.acquire("alice")).toBe(true);
+    expect(await turns.acquire("bob")).toBe(true);
+    expect(turns.running).toBe(2);
+    expect(turns.depth).toBe(0);
+  });
+
+  it("should serve waiting agents round-robin", async () => {
+    const turns = new TurnScheduler(1);
+    await turns.acquire("busy");
+
+    const order: string[] = [];
+    const wait = (agentId: string) =>
+      turns.acquire(agentId).then(() => {
+        order.push(agentId);
+      });
+    const waiting = [wait("alice"), wait("alice"), wait("alice"), wait("bob")];
+    expect(turns.depth).toBe(4);
+    expect(turns.isWaiting("alice")).toBe(true);
+
+    for (let i = 0; i < 4; i++) {
+      turns.release();
+      await Promise.resolve();
+    }
+    await Promise.all(waiting);
+    expect(order).toEqual(["alice", "bob", "alice", "alice"]);
+  });
+
+  it("should not let new turns jump the queue", async () => {
+    const turns = new TurnScheduler(1);
+    await turns.acquire("alice");
+    const bob = turns.acquire("bob");
+    turns.release();
+    expect(await bob).toBe(true);
+    expect(turns.running).toBe(1);
+  });
+
+  it("should resolve cancelled turns with false", async () => {
+    const turns = new TurnScheduler(1);
+    await turns.acquire("alice");
+    const bob = turns.acquire("bob");
+    turns.cancel("bob");
+    expect(await bob).toBe(false);
+    expect(turns.depth).toBe(0);
+    turns.release();
+    expect(turns.running).toBe(0);
+  });
+});
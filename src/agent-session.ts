@@ -3,7 +3,9 @@
  * and message-delivery wiring.
  */
 import type { CopilotSession } from "@github/copilot-sdk";
-import type { MessageBus } from "./message-bus.js";
+import type { BlackboardEntry, MessageBus } from "./message-bus.js";
+import { DEFAULT_TEAMMATE_MODEL } from "./constants.js";
+import { ModelRegistry } from "./model-registry.js";
 
 export type AgentRole = "lead" | "teammate";
 
@@ -14,6 +16,14 @@ export interface AgentInfo {
   specialty?: string;
   /** The model used by this agent's session */
   model?: string;
+  /** Why the model was chosen, e.g. which routing keywords matched */
+  modelReason?: string;
+  /** ID of the agent that spawned this one; unset for the lead */
+  parentId?: string;
+  /** IDs of the live agents this one has spawned */
+  childIds?: string[];
+  /** Whether this teammate may spawn and shut down teammates of its own */
+  subLead?: boolean;
 }
 
 export interface ManagedAgent {
@@ -30,8 +40,20 @@ export interface ManagedAgent {
  *                  user's input. When provided, a strong language-matching
  *                  directive is prepended to keep all agent communication
  *                  in the same language as the user.
+ * @param blackboard Current blackboard entries, rendered so a newly
+ *                  spawned agent starts with the team's decisions.
+ * @param models    Models the Lead can pick from for its teammates.
+ * @param canPromote Whether the team depth limit lets this agent spawn
+ *                  sub-leads.
  */
-export function buildSystemMessage(agent: AgentInfo, teamSize: number, language?: string): string {
+export function buildSystemMessage(
+  agent: AgentInfo,
+  teamSize: number,
+  language?: string,
+  blackboard: BlackboardEntry[] = [],
+  models: ModelRegistry = new ModelRegistry(),
+  canPromote = false,
+): string {
   // ── Language enforcement directive ──────────────────────────────
   const langDirective = language && language !== "en"
     ? `
@@ -57,14 +79,28 @@ Team size: ${teamSize} agents.
 ## Communication Protocol
 - Use \`read_messages\` frequently to check for new messages from teammates.
 - Use \`send_message\` to communicate findings, questions, or coordinate with specific teammates.
+- Use \`reply_message\` with a message ID to answer a specific message — this keeps the answer in the same thread as the question.
+- Use \`ask_teammate\` only when you cannot continue without an answer — it blocks until the teammate replies or the timeout expires.
+- When a message says its sender is blocked waiting for your answer, reply to it with \`reply_message\` right away.
 - Use \`broadcast\` sparingly for team-wide announcements.
+- Use \`join_channel\` to follow a topic (e.g. #frontend) and \`send_message\` with the channel as \`to\` to reach its members; use \`multicast\` to reach every teammate with a given specialty.
+- Use \`message_status\` to check whether an important message was delivered and read. If a message cannot be delivered you get it back as a bounce.
+- If \`send_message\` reports \`recipient-overloaded\` or \`rate-limited\`, do not resend right away: wait (see \`retryAfterSeconds\`), batch your points into one message, or record them on the task instead.
 - Use \`list_teammates\` to see who is available.
 
 ## Task Management
-- Use \`list_tasks\` to see the shared task list.
+- Use \`list_tasks\` to see the shared task list — filter it (status, assignee, search, …) and use \`compact\` on long lists; use \`get_task\` for the full detail of one task.
 - Use \`claim_task\` to pick up unassigned tasks.
-- Use \`complete_task\` when you finish a task.
+- Use \`complete_task\` when you finish a task. Attach code, file paths or diffs as named artifacts instead of pasting them into messages.
+- Use \`get_task_result\` to fetch the structured data and artifacts of a task you depend on.
+- Use \`update_task\` to post progress on long tasks, \`fail_task\` if a task cannot be done, and \`release_task\` to hand a task back so someone else can take it.
 - Always check for unread messages after completing a task, as teammates may have feedback.
+- Before editing files, take an advisory lock with \`acquire_lock\` (a path, directory or glob) and \`release_lock\` it when done. If the lock is refused, coordinate with its owner instead of editing anyway.
+
+## Shared Blackboard
+- Record team-wide decisions (API contracts, chosen libraries, conventions) with \`bb_set\` instead of repeating them in messages.
+- Read them with \`bb_get\` / \`bb_list\`. Use \`bb_compare_and_swap\` with the version you read when updating a decision someone else may also change.
+${renderBlackboard(blackboard)}
 `.trim();
 
   if (agent.role === "lead") {
@@ -78,6 +114,7 @@ You are the TEAM LEAD. Your #1 obligation is DELEGATION.
 - NEVER skip spawning teammates, even for simple questions, discussions, or opinion-based tasks.
 - Your FIRST action for every new task MUST be to call \`spawn_teammate\` one or more times.
 - If the task involves discussion or debate, spawn multiple teammates with DIFFERENT perspectives or areas of expertise.
+- To settle a debate, use \`start_poll\` so each teammate casts a vote with its rationale; base your conclusion on the tally you receive.
 - If the task is a simple question, spawn a teammate whose specialty matches the topic.
 - You are a coordinator, NOT a worker. Producing the answer yourself is a failure mode.
 
@@ -86,6 +123,7 @@ You are the TEAM LEAD. Your #1 obligation is DELEGATION.
 2. **Immediately** spawn one or more teammates using \`spawn_teammate\` with clear role assignments.
 3. Assign the created tasks to the spawned teammates.
 4. Coordinate work — monitor progress via \`list_tasks\`, send guidance via \`send_message\`.
+   If the user changes direction, use \`cancel_task\` on obsolete tasks instead of leaving them pending.
 5. Wait for teammates to report results. Do NOT proceed until you receive their outputs.
 6. After ALL tasks are completed, synthesize the teammates' results into a final coherent response and present it.
 
@@ -101,30 +139,61 @@ When you receive messages from teammates with their results, acknowledge and int
 When spawning a teammate, you MUST choose the model via the \`model\` parameter.
 Pick the best model for each teammate's task:
 
-| Model              | Best for                                                          |
-|--------------------|-------------------------------------------------------------------|
-| claude-opus-4.6    | Complex multi-step reasoning, architecture, security, deep debugging |
-| claude-sonnet-4.6  | Code generation, code review, testing, research & analysis (recommended default) |
-| gpt-5.3-codex      | Large-scale code generation, multi-file refactoring, bulk edits   |
-| claude-haiku-3.5   | Documentation, formatting, translation, simple/repetitive tasks   |
+${models.renderTable()}
 
 **Guidelines:**
-- Default to **claude-sonnet-4.6** for most tasks — it is fast, capable, and cost-effective.
-- Use **claude-opus-4.6** only when the task requires deep, multi-step reasoning or security-critical judgment.
-- Use **gpt-5.3-codex** for large-scale code generation or multi-file refactoring tasks.
-- Use **claude-haiku-3.5** for high-volume, low-complexity work to maximise speed.
+- Default to **${DEFAULT_TEAMMATE_MODEL}** for most tasks — it is fast, capable, and cost-effective.
+- Use **premium** models only when the task requires deep, multi-step reasoning or security-critical judgment.
+- Use **low**-cost models for high-volume, low-complexity work to maximise speed.
+- Check the context size when a teammate must read a large codebase or long documents.
 - Always specify a model — do not omit it.
-`;
+
+If the team is at its teammate limit, \`spawn_teammate\` returns \`queued: true\` instead of a teammate ID.
+The teammate starts once another one shuts down, and you get a message when it does; assign its tasks then.
+${canPromote ? SUB_LEAD_HINT : ""}`;
   }
 
+  const reportTo = agent.parentId && agent.parentId !== "lead" ? `your sub-lead \`${agent.parentId}\`` : "the lead";
+  const subLeadSection = agent.subLead
+    ? `
+
+## Sub-Lead Responsibilities
+You lead a sub-team for your part of the work, with your own \`spawn_teammate\` and \`shutdown_teammate\` tools.
+- Split your part into tasks with \`create_task\`, spawn teammates for them and assign the tasks.
+- Your teammates report to you. Review their results and send one consolidated report to ${reportTo}.
+- Your sub-team shares a budget: spawn only when the work is large enough to be worth it, and shut teammates down when they are done.
+${canPromote ? SUB_LEAD_HINT : ""}`
+    : "";
+
   return `${common}
 
 ## Teammate Responsibilities
 1. Check \`list_tasks\` and \`claim_task\` to pick up work.
 2. Execute your assigned tasks thoroughly.
-3. Report findings to the lead via \`send_message\`.
+3. Report findings to ${reportTo} via \`send_message\`.
 4. Read messages regularly — the lead or other teammates may have follow-up instructions.
 5. Use \`complete_task\` when finished with clear, concise results.
 6. If you need information from another teammate, use \`send_message\` to ask directly.
+7. When you receive a poll, answer it with \`cast_vote\` and an honest rationale from your own perspective.${subLeadSection}
 `;
 }
+
+/** How to spawn a sub-lead; shown only while the depth limit allows one. */
+const SUB_LEAD_HINT = `
+For a large, separable area of work, spawn the teammate with \`subLead: true\`: it gets its own \`spawn_teammate\` and \`shutdown_teammate\` tools and runs a sub-team, within the team depth limit and a per-subtree budget.`;
+
+/** Longest rendering of a single blackboard value in the system message. */
+const MAX_BLACKBOARD_VALUE_CHARS = 500;
+
+function renderBlackboard(entries: BlackboardEntry[]): string {
+  if (entries.length === 0) return "";
+  const lines = entries.map((e) => {
+    const value = JSON.stringify(e.value);
+    const shown =
+      value.length > MAX_BLACKBOARD_VALUE_CHARS
+        ? `${value.slice(0, MAX_BLACKBOARD_VALUE_CHARS)}… (truncated — use bb_get)`
+        : value;
+    return `- \`${e.key}\` (v${e.version}, by ${e.updatedBy}): ${shown}`;
+  });
+  return `\nCurrent entries:\n${lines.join("\n")}`;
+}
@@ -5,8 +5,10 @@
  */
 import { z } from "zod";
 import { defineTool } from "@github/copilot-sdk";
-import type { MessageBus } from "./message-bus.js";
-import { AVAILABLE_MODELS, MODEL_DESCRIPTIONS, DEFAULT_TEAMMATE_MODEL } from "./constants.js";
+import { ARTIFACT_KINDS, TASK_STATUSES, currentAttempt, type AgentMessage, type MessageBus } from "./message-bus.js";
+import type { AgentInfo } from "./agent-session.js";
+import type { ModelRegistry } from "./model-registry.js";
+import { TURN_TIMEOUT_MS } from "./constants.js";
 
 /** Log callback type for tool activity visibility */
 export type ToolLogger = (level: "info" | "debug" | "warn" | "error", msg: string) => void;
@@ -14,6 +16,22 @@ export type ToolLogger = (level: "info" | "debug" | "warn" | "error", msg: strin
 /** No-op logger as default */
 const noop: ToolLogger = () => {};
 
+/**
+ * Waits for ask_teammate. The maximum stays well below TURN_TIMEOUT_MS
+ * so the asking agent's own turn does not time out while it is blocked.
+ */
+const DEFAULT_ASK_TIMEOUT_SECONDS = 45;
+const MAX_ASK_TIMEOUT_SECONDS = Math.min(300, TURN_TIMEOUT_MS / 2000);
+
+/** Page size of list_tasks unless the agent asks for more. */
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+const MAX_LOCK_TTL_SECONDS = 3600;
+
+const DEFAULT_POLL_SECONDS = 120;
+const MAX_POLL_SECONDS = 1800;
+
 /**
  * Creates the set of communication tools for a given agent.
  * Each tool closure captures the agentId and the shared MessageBus.
@@ -23,15 +41,27 @@ export function createAgentTools(agentId: string, bus: MessageBus, onLog: ToolLo
     // ── send_message ──────────────────────────────────────────────
     defineTool("send_message", {
       description:
-        "Send a direct message to another teammate. Use this to share findings, ask questions, or coordinate work.",
+        "Send a direct message to another teammate, or to every member of a channel. Use this to share findings, ask questions, or coordinate work.",
       parameters: z.object({
-        to: z.string().describe("The agent ID to send the message to"),
+        to: z.string().describe("The agent ID to send the message to, or a channel name such as \"#frontend\""),
         content: z.string().describe("The message content"),
       }),
       handler: async ({ to, content }) => {
         onLog("info", `[${agentId}] 📤 send_message → ${to}: ${content.slice(0, 120)}`);
+        const pressure = bus.checkBackpressure(agentId, to);
+        if (pressure) {
+          onLog("warn", `[${agentId}] send_message → ${to} pushed back: ${pressure.reason}`);
+          return {
+            success: false,
+            status: pressure.reason,
+            error: pressure.message,
+            retryAfterSeconds: pressure.retryAfterMs !== undefined ? Math.ceil(pressure.retryAfterMs / 1000) : undefined,
+          };
+        }
         try {
           const msg = bus.sendMessage(agentId, to, content);
+          const bounced = bus.getDeliveryStatus(msg.id).find((d) => d.state === "dropped");
+          if (bounced) return { success: false, messageId: msg.id, error: `Not delivered: ${bounced.reason}` };
           return { success: true, messageId: msg.id };
         } catch (err: any) {
           onLog("error", `[${agentId}] send_message failed: ${err.message}`);
@@ -40,6 +70,41 @@ export function createAgentTools(agentId: string, bus: MessageBus, onLog: ToolLo
       },
     }),
 
+    // ── ask_teammate ──────────────────────────────────────────────
+    defineTool("ask_teammate", {
+      description:
+        "Ask a teammate a question and WAIT for the answer, which is returned directly as this tool's result. " +
+        "Use this when you cannot continue without the answer; use send_message for anything else. " +
+        "Fails fast if the teammate is itself waiting on you (deadlock), and fails after the timeout if nobody answers.",
+      parameters: z.object({
+        to: z.string().describe("The agent ID to ask"),
+        question: z.string().describe("The question to ask"),
+        timeoutSeconds: z
+          .number()
+          .int()
+          .positive()
+          .max(MAX_ASK_TIMEOUT_SECONDS)
+          .optional()
+          .describe(`How long to wait for the answer (default: ${DEFAULT_ASK_TIMEOUT_SECONDS})`),
+      }),
+      handler: async ({ to, question, timeoutSeconds }) => {
+        onLog("info", `[${agentId}] ❓ ask_teammate → ${to}: ${question.slice(0, 120)}`);
+        try {
+          const reply = await bus.ask(
+            agentId,
+            to,
+            question,
+            (timeoutSeconds ?? DEFAULT_ASK_TIMEOUT_SECONDS) * 1000,
+          );
+          onLog("info", `[${agentId}] 💬 ask_teammate answered by ${to}: ${reply.content.slice(0, 120)}`);
+          return { success: true, from: reply.from, answer: reply.content, messageId: reply.id };
+        } catch (err: any) {
+          onLog("warn", `[${agentId}] ask_teammate failed: ${err.message}`);
+          return { success: false, error: err.message };
+        }
+      },
+    }),
+
     // ── broadcast ─────────────────────────────────────────────────
     defineTool("broadcast", {
       description:
@@ -49,36 +114,172 @@ export function createAgentTools(agentId: string, bus: MessageBus, onLog: ToolLo
       }),
       handler: async ({ content }) => {
         onLog("info", `[${agentId}] 📢 broadcast: ${content.slice(0, 120)}`);
-        const msg = bus.sendMessage(agentId, "*", content);
-        return { success: true, messageId: msg.id };
+        try {
+          const msg = bus.sendMessage(agentId, "*", content);
+          return { success: true, messageId: msg.id };
+        } catch (err: any) {
+          onLog("warn", `[${agentId}] broadcast failed: ${err.message}`);
+          return { success: false, error: err.message };
+        }
+      },
+    }),
+
+    // ── message_status ────────────────────────────────────────────
+    defineTool("message_status", {
+      description:
+        "Check whether a message you sent has been delivered and read. " +
+        "States per recipient: queued (waiting), delivered (handed to the recipient), read (processed), dropped (never reached them).",
+      parameters: z.object({
+        messageId: z.string().describe("The ID of the message, as returned when you sent it"),
+      }),
+      handler: async ({ messageId }) => {
+        onLog("debug", `[${agentId}] message_status: ${messageId}`);
+        try {
+          const recipients = bus.getDeliveryStatus(messageId);
+          const involved = recipients.some((d) => d.from === agentId || d.recipient === agentId);
+          if (!involved) {
+            return { success: false, error: `Message "${messageId}" was not sent by or to you` };
+          }
+          return {
+            success: true,
+            messageId,
+            recipients: recipients.map((d) => ({
+              recipient: d.recipient,
+              state: d.state,
+              queuedAt: new Date(d.queuedAt).toISOString(),
+              deliveredAt: d.deliveredAt && new Date(d.deliveredAt).toISOString(),
+              readAt: d.readAt && new Date(d.readAt).toISOString(),
+              droppedAt: d.droppedAt && new Date(d.droppedAt).toISOString(),
+              reason: d.reason,
+            })),
+          };
+        } catch (err: any) {
+          return { success: false, error: err.message };
+        }
+      },
+    }),
+
+    // ── multicast ─────────────────────────────────────────────────
+    defineTool("multicast", {
+      description:
+        "Send a message to every teammate whose specialty matches a pattern, e.g. \"review\" or \"frontend|ui\".",
+      parameters: z.object({
+        specialty: z.string().describe("Case-insensitive regular expression matched against teammates' specialties"),
+        content: z.string().describe("The message content"),
+      }),
+      handler: async ({ specialty, content }) => {
+        onLog("info", `[${agentId}] 📣 multicast /${specialty}/: ${content.slice(0, 120)}`);
+        try {
+          const { message, recipients } = bus.multicast(agentId, specialty, content);
+          return { success: true, messageId: message.id, recipients };
+        } catch (err: any) {
+          onLog("error", `[${agentId}] multicast failed: ${err.message}`);
+          return { success: false, error: err.message };
+        }
+      },
+    }),
+
+    // ── join_channel / leave_channel ──────────────────────────────
+    defineTool("join_channel", {
+      description:
+        "Join a topic channel such as #frontend or #reviewers. Messages sent to the channel reach all of its members. Channels are created on first join.",
+      parameters: z.object({
+        channel: z.string().describe("Channel name, with or without the leading #"),
+      }),
+      handler: async ({ channel }) => {
+        onLog("info", `[${agentId}] ➕ join_channel: ${channel}`);
+        try {
+          const name = bus.joinChannel(agentId, channel);
+          return { success: true, channel: name, channels: bus.getAgentChannels(agentId) };
+        } catch (err: any) {
+          onLog("error", `[${agentId}] join_channel failed: ${err.message}`);
+          return { success: false, error: err.message };
+        }
+      },
+    }),
+
+    defineTool("leave_channel", {
+      description: "Leave a topic channel you no longer want messages from.",
+      parameters: z.object({
+        channel: z.string().describe("Channel name, with or without the leading #"),
+      }),
+      handler: async ({ channel }) => {
+        onLog("info", `[${agentId}] ➖ leave_channel: ${channel}`);
+        try {
+          const name = bus.leaveChannel(agentId, channel);
+          return { success: true, channel: name, channels: bus.getAgentChannels(agentId) };
+        } catch (err: any) {
+          onLog("error", `[${agentId}] leave_channel failed: ${err.message}`);
+          return { success: false, error: err.message };
+        }
+      },
+    }),
+
+    // ── reply_message ─────────────────────────────────────────────
+    defineTool("reply_message", {
+      description:
+        "Reply to a specific message you received. The reply goes to the original sender and stays in the same thread, so it is clear which question it answers.",
+      parameters: z.object({
+        messageId: z.string().describe("The ID of the message you are replying to"),
+        content: z.string().describe("The reply content"),
+      }),
+      handler: async ({ messageId, content }) => {
+        onLog("info", `[${agentId}] ↩️ reply_message → ${messageId}: ${content.slice(0, 120)}`);
+        try {
+          const msg = bus.replyToMessage(agentId, messageId, content);
+          return { success: true, messageId: msg.id, threadId: msg.threadId, to: msg.to };
+        } catch (err: any) {
+          onLog("error", `[${agentId}] reply_message failed: ${err.message}`);
+          return { success: false, error: err.message };
+        }
       },
     }),
 
     // ── read_messages ─────────────────────────────────────────────
     defineTool("read_messages", {
       description:
-        "Read unread messages from your mailbox. Call this periodically to check for new messages from teammates.",
-      parameters: z.object({}),
-      handler: async () => {
+        "Read unread messages from your mailbox. Call this periodically to check for new messages from teammates. " +
+        "Pass a threadId to instead get the full conversation of that thread, including your own messages.",
+      parameters: z.object({
+        threadId: z
+          .string()
+          .optional()
+          .describe("Return the full thread with this ID instead of unread messages"),
+      }),
+      handler: async ({ threadId }) => {
+        const toView = (m: Omit<AgentMessage, "read">) => ({
+          id: m.id,
+          from: m.from,
+          to: m.to,
+          content: m.content,
+          threadId: m.threadId,
+          inReplyTo: m.inReplyTo,
+          timestamp: new Date(m.timestamp).toISOString(),
+        });
+
+        if (threadId) {
+          const thread = bus.getThread(threadId, agentId);
+          onLog("info", `[${agentId}] 🧵 read_messages(thread ${threadId}): ${thread.length} messages`);
+          if (thread.length === 0) {
+            return { messages: [], note: `No messages found in thread "${threadId}".` };
+          }
+          return { threadId, messages: thread.map(toView) };
+        }
+
         const msgs = bus.readMessages(agentId);
         onLog("info", `[${agentId}] 📬 read_messages: ${msgs.length} unread`);
         if (msgs.length === 0) {
           return { messages: [], note: "No unread messages." };
         }
-        return {
-          messages: msgs.map((m) => ({
-            from: m.from,
-            content: m.content,
-            timestamp: new Date(m.timestamp).toISOString(),
-          })),
-        };
+        return { messages: msgs.map(toView) };
       },
     }),
 
     // ── create_task ───────────────────────────────────────────────
     defineTool("create_task", {
       description:
-        "Create a new task on the shared task list. Optionally assign it to a specific teammate.",
+        "Create a new task on the shared task list. Optionally assign it to a specific teammate. " +
+        "Pass parentId to break a large task into subtasks — the parent completes (or fails) automatically once all of its subtasks finish.",
       parameters: z.object({
         description: z.string().describe("What needs to be done"),
         assignee: z
@@ -89,14 +290,43 @@ export function createAgentTools(agentId: string, bus: MessageBus, onLog: ToolLo
           .array(z.string())
           .optional()
           .describe("Task IDs that must complete before this task can start"),
+        parentId: z
+          .string()
+          .optional()
+          .describe("ID of the parent task when creating a subtask"),
+        maxAttempts: z
+          .number()
+          .int()
+          .min(1)
+          .max(10)
+          .optional()
+          .describe("How many times the task may be attempted before it fails for good (default: 1, no retry)"),
+        backoffSeconds: z
+          .number()
+          .min(0)
+          .optional()
+          .describe("Delay before a failed task can be retried; doubles after each failure (default: 0)"),
+        resultSchema: z
+          .record(z.string(), z.unknown())
+          .optional()
+          .describe("JSON Schema the structured `data` passed to complete_task must match"),
       }),
-      handler: async ({ description, assignee, dependsOn }) => {
-        onLog("info", `[${agentId}] 📋 create_task: "${description.slice(0, 80)}" → ${assignee ?? "unassigned"}`);
-        const task = bus.createTask(description, agentId, {
-          assignee,
-          dependsOn,
-        });
-        return { success: true, taskId: task.id };
+      handler: async ({ description, assignee, dependsOn, parentId, maxAttempts, backoffSeconds, resultSchema }) => {
+        onLog("info", `[${agentId}] 📋 create_task: "${description.slice(0, 80)}" → ${assignee ?? "unassigned"}${parentId ? ` (subtask of ${parentId})` : ""}`);
+        try {
+          const task = bus.createTask(description, agentId, {
+            assignee,
+            dependsOn,
+            parentId,
+            maxAttempts,
+            backoffMs: backoffSeconds !== undefined ? backoffSeconds * 1000 : undefined,
+            resultSchema,
+          });
+          return { success: true, taskId: task.id };
+        } catch (err: any) {
+          onLog("error", `[${agentId}] create_task failed: ${err.message}`);
+          return { success: false, error: err.message };
+        }
       },
     }),
 
@@ -122,15 +352,32 @@ export function createAgentTools(agentId: string, bus: MessageBus, onLog: ToolLo
     // ── complete_task ─────────────────────────────────────────────
     defineTool("complete_task", {
       description:
-        "Mark a task you are working on as completed and provide the result.",
+        "Mark a task you are working on as completed and provide the result. " +
+        "Attach structured data (required if the task declares a result schema) and named artifacts " +
+        "such as code snippets, file paths or diffs that dependents can fetch with get_task_result.",
       parameters: z.object({
         taskId: z.string().describe("The ID of the task to complete"),
         result: z.string().describe("Summary of what was accomplished"),
+        data: z
+          .unknown()
+          .optional()
+          .describe("Structured result payload (JSON)"),
+        artifacts: z
+          .array(
+            z.object({
+              name: z.string().describe("Unique name within the task, e.g. \"auth-middleware\""),
+              kind: z.enum(ARTIFACT_KINDS).describe("code snippet, file path, diff or plain text"),
+              content: z.string().describe("The artifact itself — for kind \"file\", the file path"),
+              language: z.string().optional().describe("Language of a code snippet"),
+            }),
+          )
+          .optional()
+          .describe("Named outputs to store with the task"),
       }),
-      handler: async ({ taskId, result }) => {
-        onLog("info", `[${agentId}] ✅ complete_task: ${taskId} — ${result.slice(0, 120)}`);
+      handler: async ({ taskId, result, data, artifacts }) => {
+        onLog("info", `[${agentId}] ✅ complete_task: ${taskId} — ${result.slice(0, 120)}${artifacts?.length ? ` (+${artifacts.length} artifact(s))` : ""}`);
         try {
-          bus.completeTask(taskId, agentId, result);
+          bus.completeTask(taskId, agentId, result, { data, artifacts });
           return { success: true };
         } catch (err: any) {
           onLog("error", `[${agentId}] complete_task failed: ${err.message}`);
@@ -139,61 +386,388 @@ export function createAgentTools(agentId: string, bus: MessageBus, onLog: ToolLo
       },
     }),
 
+    // ── fail_task ─────────────────────────────────────────────────
+    defineTool("fail_task", {
+      description:
+        "Report that a task you are working on has failed. If the task has attempts left it goes back to the task list for a retry; otherwise it is marked failed.",
+      parameters: z.object({
+        taskId: z.string().describe("The ID of the task that failed"),
+        reason: z.string().describe("Why the task failed — be specific so a retry can avoid the same problem"),
+      }),
+      handler: async ({ taskId, reason }) => {
+        onLog("info", `[${agentId}] ❌ fail_task: ${taskId} — ${reason.slice(0, 120)}`);
+        try {
+          const task = bus.failTask(taskId, agentId, reason);
+          return {
+            success: true,
+            status: task.status,
+            attempt: `${currentAttempt(task)}/${task.maxAttempts}`,
+            willRetry: task.status === "pending",
+          };
+        } catch (err: any) {
+          onLog("error", `[${agentId}] fail_task failed: ${err.message}`);
+          return { success: false, error: err.message };
+        }
+      },
+    }),
+
+    // ── release_task ──────────────────────────────────────────────
+    defineTool("release_task", {
+      description:
+        "Give up a task you claimed so someone else can pick it up. The task goes back to pending and the lead is notified. This does not count as a failed attempt.",
+      parameters: z.object({
+        taskId: z.string().describe("The ID of the task to release"),
+        note: z.string().optional().describe("Why you are releasing it, or hints for whoever picks it up"),
+      }),
+      handler: async ({ taskId, note }) => {
+        onLog("info", `[${agentId}] ↩️ release_task: ${taskId}${note ? ` — ${note.slice(0, 120)}` : ""}`);
+        try {
+          bus.releaseTask(taskId, agentId, note);
+          return { success: true };
+        } catch (err: any) {
+          onLog("error", `[${agentId}] release_task failed: ${err.message}`);
+          return { success: false, error: err.message };
+        }
+      },
+    }),
+
+    // ── update_task ───────────────────────────────────────────────
+    defineTool("update_task", {
+      description:
+        "Post interim progress on a task you are working on, so the lead and the UI can follow along.",
+      parameters: z.object({
+        taskId: z.string().describe("The ID of the task"),
+        note: z.string().describe("Short progress note"),
+        percent: z.number().min(0).max(100).optional().describe("Estimated percent complete (0-100)"),
+      }),
+      handler: async ({ taskId, note, percent }) => {
+        onLog("info", `[${agentId}] 🔄 update_task: ${taskId}${percent !== undefined ? ` (${percent}%)` : ""} — ${note.slice(0, 120)}`);
+        try {
+          bus.updateTask(taskId, agentId, { note, percent });
+          return { success: true };
+        } catch (err: any) {
+          onLog("error", `[${agentId}] update_task failed: ${err.message}`);
+          return { success: false, error: err.message };
+        }
+      },
+    }),
+
     // ── list_tasks ────────────────────────────────────────────────
     defineTool("list_tasks", {
       description:
-        "View the shared task list to see all tasks and their current status.",
+        "View the shared task list. Supports filters, text search and paging; " +
+        "use compact mode to skip results on long lists and get_task for the full detail of one task.",
       parameters: z.object({
         status: z
-          .enum(["pending", "in-progress", "completed", "failed"])
+          .enum(TASK_STATUSES)
           .optional()
           .describe("Filter by status"),
+        assignee: z.string().optional().describe("Only tasks assigned to this agent ID"),
+        createdBy: z.string().optional().describe("Only tasks created by this agent ID"),
+        dependsOn: z.string().optional().describe("Only tasks that depend on this task ID"),
+        parentId: z.string().optional().describe("Only subtasks of this task ID"),
+        search: z.string().optional().describe("Case-insensitive text to look for in descriptions"),
+        sortBy: z
+          .enum(["createdAt", "updatedAt"])
+          .optional()
+          .describe("Sort by creation time (default) or last update"),
+        order: z.enum(["asc", "desc"]).optional().describe("Sort order (default: asc)"),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_LIST_LIMIT)
+          .optional()
+          .describe(`Maximum tasks to return (default: ${DEFAULT_LIST_LIMIT})`),
+        offset: z.number().int().min(0).optional().describe("Number of matching tasks to skip"),
+        compact: z
+          .boolean()
+          .optional()
+          .describe("Omit results and progress notes to save space (default: false)"),
       }),
-      handler: async ({ status }) => {
-        const tasks = bus.listTasks(status ? { status } : undefined);
-        onLog("debug", `[${agentId}] list_tasks(${status ?? "all"}): ${tasks.length} tasks`);
+      handler: async ({ compact, limit, offset, ...filters }) => {
+        const query = { ...filters, limit: limit ?? DEFAULT_LIST_LIMIT, offset: offset ?? 0 };
+        const { tasks, total } = bus.queryTasks(query);
+        onLog("debug", `[${agentId}] list_tasks(${JSON.stringify(filters)}): ${tasks.length}/${total} tasks`);
         return {
-          tasks: tasks.map((t) => ({
-            id: t.id,
-            description: t.description,
-            status: t.status,
-            assignee: t.assignee ?? "unassigned",
-            result: t.result,
-          })),
+          total,
+          offset: query.offset,
+          hasMore: query.offset + tasks.length < total,
+          tasks: tasks.map((t) => {
+            const summary = {
+              id: t.id,
+              description: t.description,
+              status: t.status,
+              parentId: t.parentId,
+              dependsOn: t.dependsOn.length > 0 ? t.dependsOn : undefined,
+              blockedBy: t.blockedBy,
+              assignee: t.assignee ?? "unassigned",
+              attempt: `${currentAttempt(t)}/${t.maxAttempts}`,
+            };
+            if (compact) return summary;
+            const artifacts = bus.getArtifacts(t.id).map((a) => a.name);
+            return {
+              ...summary,
+              progress: t.progress
+                ? { note: t.progress.note, percent: t.progress.percent }
+                : undefined,
+              result: t.result,
+              artifacts: artifacts.length > 0 ? artifacts : undefined,
+            };
+          }),
         };
       },
     }),
 
+    // ── get_task ──────────────────────────────────────────────────
+    defineTool("get_task", {
+      description:
+        "Get the full detail of one task: description, status, dependencies, subtasks, attempt history, progress and result.",
+      parameters: z.object({
+        taskId: z.string().describe("The ID of the task"),
+      }),
+      handler: async ({ taskId }) => {
+        onLog("debug", `[${agentId}] get_task: ${taskId}`);
+        const task = bus.getTask(taskId);
+        if (!task) return { success: false, error: `Task "${taskId}" not found` };
+        return {
+          success: true,
+          task: {
+            ...task,
+            attempt: `${currentAttempt(task)}/${task.maxAttempts}`,
+            subtasks: bus.getSubtasks(taskId).map((t) => t.id),
+            dependents: bus.queryTasks({ dependsOn: taskId }).tasks.map((t) => t.id),
+            artifacts: bus.getArtifacts(taskId).map((a) => ({ name: a.name, kind: a.kind })),
+          },
+        };
+      },
+    }),
+
+    // ── get_task_result ───────────────────────────────────────────
+    defineTool("get_task_result", {
+      description:
+        "Fetch the result, structured data and artifacts of a task — e.g. an upstream task you depend on. " +
+        "Without `artifact`, artifacts are listed by name; pass a name to get its content.",
+      parameters: z.object({
+        taskId: z.string().describe("The ID of the task"),
+        artifact: z.string().optional().describe("Name of an artifact to fetch in full"),
+      }),
+      handler: async ({ taskId, artifact }) => {
+        onLog("debug", `[${agentId}] get_task_result: ${taskId}${artifact ? ` [${artifact}]` : ""}`);
+        try {
+          const res = bus.getTaskResult(taskId);
+          if (artifact) {
+            const found = res.artifacts.find((a) => a.name === artifact);
+            if (!found) return { success: false, error: `Task "${taskId}" has no artifact named "${artifact}"` };
+            return { success: true, artifact: found };
+          }
+          return {
+            success: true,
+            taskId: res.taskId,
+            status: res.status,
+            result: res.result,
+            data: res.data,
+            artifacts: res.artifacts.map((a) => ({
+              name: a.name,
+              kind: a.kind,
+              language: a.language,
+              size: a.content.length,
+            })),
+          };
+        } catch (err: any) {
+          onLog("error", `[${agentId}] get_task_result failed: ${err.message}`);
+          return { success: false, error: err.message };
+        }
+      },
+    }),
+
+    // ── Blackboard ────────────────────────────────────────────────
+    defineTool("bb_get", {
+      description: "Read a key from the shared blackboard, with its current version.",
+      parameters: z.object({
+        key: z.string().describe("The key to read, e.g. \"api/contract\""),
+      }),
+      handler: async ({ key }) => {
+        onLog("debug", `[${agentId}] bb_get: ${key}`);
+        const entry = bus.readBlackboard(key);
+        if (!entry) return { success: false, error: `Blackboard key "${key}" not set` };
+        return { success: true, ...entry };
+      },
+    }),
+
+    defineTool("bb_set", {
+      description:
+        "Write a key on the shared blackboard, overwriting any current value. " +
+        "Use it for team-wide decisions; use bb_compare_and_swap when others may be updating the same key.",
+      parameters: z.object({
+        key: z.string().describe("The key to write (letters, digits and . : / - _)"),
+        value: z.unknown().describe("The value (any JSON)"),
+      }),
+      handler: async ({ key, value }) => {
+        onLog("info", `[${agentId}] 📌 bb_set: ${key}`);
+        try {
+          const entry = bus.writeBlackboard(key, value, agentId);
+          return { success: true, key: entry.key, version: entry.version };
+        } catch (err: any) {
+          onLog("error", `[${agentId}] bb_set failed: ${err.message}`);
+          return { success: false, error: err.message };
+        }
+      },
+    }),
+
+    defineTool("bb_compare_and_swap", {
+      description:
+        "Write a blackboard key only if it is still at the version you last read (0 = key must not exist yet). " +
+        "On a conflict, read the key again, reconcile, and retry.",
+      parameters: z.object({
+        key: z.string().describe("The key to write"),
+        expectedVersion: z.number().int().min(0).describe("Version you read with bb_get, or 0 to create"),
+        value: z.unknown().describe("The new value (any JSON)"),
+      }),
+      handler: async ({ key, expectedVersion, value }) => {
+        onLog("info", `[${agentId}] 📌 bb_compare_and_swap: ${key}@v${expectedVersion}`);
+        try {
+          const entry = bus.writeBlackboard(key, value, agentId, expectedVersion);
+          return { success: true, key: entry.key, version: entry.version };
+        } catch (err: any) {
+          onLog("warn", `[${agentId}] bb_compare_and_swap failed: ${err.message}`);
+          return { success: false, error: err.message, current: bus.readBlackboard(key) };
+        }
+      },
+    }),
+
+    defineTool("bb_list", {
+      description: "List the shared blackboard's keys and values, optionally only keys starting with a prefix.",
+      parameters: z.object({
+        prefix: z.string().optional().describe("Only keys starting with this prefix"),
+      }),
+      handler: async ({ prefix }) => {
+        const entries = bus.listBlackboard(prefix);
+        onLog("debug", `[${agentId}] bb_list(${prefix ?? "all"}): ${entries.length} keys`);
+        return { entries };
+      },
+    }),
+
+    // ── Resource locks ────────────────────────────────────────────
+    defineTool("acquire_lock", {
+      description:
+        "Take an advisory lock on a file path, directory or glob (e.g. \"src/api/**\") before editing it, " +
+        "so teammates don't clobber each other's changes. Fails if a teammate holds an overlapping lock. " +
+        "Calling it again on your own lock renews it.",
+      parameters: z.object({
+        resource: z.string().describe("File path, directory or glob to lock"),
+        ttlSeconds: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_LOCK_TTL_SECONDS)
+          .optional()
+          .describe("How long the lock lasts unless renewed (default: 10 minutes)"),
+        note: z.string().optional().describe("What you are doing with the resource"),
+      }),
+      handler: async ({ resource, ttlSeconds, note }) => {
+        onLog("info", `[${agentId}] 🔒 acquire_lock: ${resource}`);
+        try {
+          const lock = bus.acquireLock(agentId, resource, {
+            ttlMs: ttlSeconds !== undefined ? ttlSeconds * 1000 : undefined,
+            note,
+          });
+          return { success: true, resource: lock.resource, expiresAt: new Date(lock.expiresAt).toISOString() };
+        } catch (err: any) {
+          onLog("warn", `[${agentId}] acquire_lock failed: ${err.message}`);
+          return { success: false, error: err.message };
+        }
+      },
+    }),
+
+    defineTool("release_lock", {
+      description: "Release a lock you hold as soon as you are done editing the resource.",
+      parameters: z.object({
+        resource: z.string().describe("The resource exactly as it was locked"),
+      }),
+      handler: async ({ resource }) => {
+        onLog("info", `[${agentId}] 🔓 release_lock: ${resource}`);
+        try {
+          bus.releaseLock(agentId, resource);
+          return { success: true };
+        } catch (err: any) {
+          onLog("error", `[${agentId}] release_lock failed: ${err.message}`);
+          return { success: false, error: err.message };
+        }
+      },
+    }),
+
+    // ── cast_vote ─────────────────────────────────────────────────
+    defineTool("cast_vote", {
+      description:
+        "Vote in a poll you were asked to vote in. Give the rationale for your choice; voting again replaces your earlier vote.",
+      parameters: z.object({
+        pollId: z.string().describe("The ID of the poll"),
+        option: z.string().describe("The option you choose — its text or its number"),
+        rationale: z.string().describe("Why you chose this option"),
+      }),
+      handler: async ({ pollId, option, rationale }) => {
+        onLog("info", `[${agentId}] 🗳️ cast_vote: ${pollId} → ${option}`);
+        try {
+          const poll = bus.castVote(pollId, agentId, option, rationale);
+          return { success: true, pollStatus: poll.status, votesCast: poll.votes.length, voters: poll.voters.length };
+        } catch (err: any) {
+          onLog("error", `[${agentId}] cast_vote failed: ${err.message}`);
+          return { success: false, error: err.message };
+        }
+      },
+    }),
+
     // ── list_teammates ────────────────────────────────────────────
     defineTool("list_teammates", {
       description:
-        "List all currently registered teammates so you know who you can communicate with.",
+        "List all currently registered teammates, their specialties and channel memberships, so you know who you can communicate with.",
       parameters: z.object({}),
       handler: async () => {
         const agents = bus.getRegisteredAgents().filter((id) => id !== agentId);
         onLog("debug", `[${agentId}] list_teammates: ${agents.join(", ")}`);
-        return { teammates: agents, yourId: agentId };
+        return {
+          teammates: agents.map((id) => ({
+            id,
+            specialty: bus.getProfile(id)?.specialty,
+            channels: bus.getAgentChannels(id),
+          })),
+          yourId: agentId,
+          yourChannels: bus.getAgentChannels(agentId),
+          channels: bus.getChannels(),
+        };
       },
     }),
   ];
 }
 
 /**
- * Additional tools only available to the Lead agent.
+ * Result of a spawn request: the new teammate, or its place in the spawn
+ * queue when the team is at its teammate limit.
  */
-export function createLeadTools(
+export type SpawnOutcome = { queued: false; info: AgentInfo } | { queued: true; position: number };
+
+/** Callbacks through which the team tools spawn and shut down agents. */
+export interface TeamCallbacks {
+  onSpawnTeammate: (name: string, role: string, prompt: string, model?: string, subLead?: boolean) => Promise<SpawnOutcome>;
+  onShutdownTeammate: (teammateId: string) => Promise<void>;
+}
+
+/**
+ * Tools for managing one's own teammates: spawn_teammate and
+ * shutdown_teammate. The Lead gets them as part of createLeadTools;
+ * sub-leads get only these.
+ */
+export function createTeamTools(
   agentId: string,
-  bus: MessageBus,
-  callbacks: {
-    onSpawnTeammate: (name: string, role: string, prompt: string, model?: string) => Promise<string>;
-    onShutdownTeammate: (teammateId: string) => Promise<void>;
-  },
+  models: ModelRegistry,
+  callbacks: TeamCallbacks,
   onLog: ToolLogger = noop,
 ) {
   return [
     defineTool("spawn_teammate", {
       description:
-        "Spawn a new teammate agent with a specific role and initial instructions. Only the team lead can do this. " +
+        "Spawn a new teammate agent with a specific role and initial instructions. Only the team lead and sub-leads can do this. " +
         "You SHOULD choose the best model for this teammate based on the task complexity. " +
         "If omitted, the system will auto-select based on role keywords.",
       parameters: z.object({
@@ -203,19 +777,38 @@ export function createLeadTools(
           .string()
           .describe("Detailed instructions for what this teammate should work on"),
         model: z
-          .enum(AVAILABLE_MODELS)
+          .enum(models.ids() as [string, ...string[]])
           .optional()
           .describe(
             "Model to use for this teammate. Choose the best fit: " +
-            AVAILABLE_MODELS.map((m) => `${m}: ${MODEL_DESCRIPTIONS[m]}`).join(". ") +
-            `. If omitted, defaults to ${DEFAULT_TEAMMATE_MODEL}.`
+            models
+              .list()
+              .map((m) => `${m.id}: ${m.description} (${m.costTier} cost)`)
+              .join(". ") +
+            ". If omitted, the system auto-selects from keywords in the role and prompt."
+          ),
+        subLead: z
+          .boolean()
+          .optional()
+          .describe(
+            "Make this teammate a sub-lead with its own spawn_teammate and shutdown_teammate tools, " +
+            "so it can run a sub-team for a large, separable part of the work. Refused beyond the team depth limit."
           ),
       }),
-      handler: async ({ name, role, prompt, model }) => {
-        onLog("info", `[${agentId}] 🚀 spawn_teammate: "${name}" (${role}) [model: ${model ?? "default"}]`);
+      handler: async ({ name, role, prompt, model, subLead }) => {
+        onLog("info", `[${agentId}] 🚀 spawn_teammate: "${name}" (${role}) [model: ${model ?? "auto"}]${subLead ? " [sub-lead]" : ""}`);
         try {
-          const id = await callbacks.onSpawnTeammate(name, role, prompt, model);
-          return { success: true, teammateId: id, model: model ?? "auto-selected" };
+          const outcome = await callbacks.onSpawnTeammate(name, role, prompt, model, subLead);
+          if (outcome.queued) {
+            return {
+              success: true,
+              queued: true,
+              position: outcome.position,
+              note: "The team is at its teammate limit. The spawn is queued and you will get a message once the teammate starts.",
+            };
+          }
+          const { info } = outcome;
+          return { success: true, teammateId: info.id, model: info.model, modelReason: info.modelReason };
         } catch (err: any) {
           onLog("error", `[${agentId}] spawn_teammate failed: ${err.message}`);
           return { success: false, error: err.message };
@@ -224,7 +817,9 @@ export function createLeadTools(
     }),
 
     defineTool("shutdown_teammate", {
-      description: "Request a teammate to shut down gracefully.",
+      description:
+        "Request a teammate to shut down gracefully. A sub-lead's own teammates are shut down with it. " +
+        "Sub-leads can only shut down members of their own sub-team.",
       parameters: z.object({
         teammateId: z.string().describe("The agent ID of the teammate to shut down"),
       }),
@@ -241,3 +836,78 @@ export function createLeadTools(
     }),
   ];
 }
+
+/**
+ * Additional tools only available to the Lead agent.
+ */
+export function createLeadTools(
+  agentId: string,
+  bus: MessageBus,
+  models: ModelRegistry,
+  callbacks: TeamCallbacks,
+  onLog: ToolLogger = noop,
+) {
+  return [
+    ...createTeamTools(agentId, models, callbacks, onLog),
+
+    defineTool("start_poll", {
+      description:
+        "Ask teammates to vote on a question, e.g. to settle a debate between different perspectives. " +
+        "Each voter gets the ballot and answers with cast_vote and a rationale. " +
+        "You receive a structured tally once everyone has voted or the deadline passes.",
+      parameters: z.object({
+        question: z.string().describe("The question to decide"),
+        options: z.array(z.string()).min(2).max(10).describe("The choices to vote on"),
+        deadlineSeconds: z
+          .number()
+          .int()
+          .min(10)
+          .max(MAX_POLL_SECONDS)
+          .optional()
+          .describe(`How long voting stays open (default: ${DEFAULT_POLL_SECONDS})`),
+        voters: z
+          .array(z.string())
+          .optional()
+          .describe("Agent IDs that should vote (default: every teammate)"),
+      }),
+      handler: async ({ question, options, deadlineSeconds, voters }) => {
+        onLog("info", `[${agentId}] 🗳️ start_poll: "${question.slice(0, 80)}" (${options.length} options)`);
+        try {
+          const poll = bus.startPoll(agentId, question, options, {
+            deadlineMs: (deadlineSeconds ?? DEFAULT_POLL_SECONDS) * 1000,
+            voters,
+          });
+          return {
+            success: true,
+            pollId: poll.id,
+            voters: poll.voters,
+            deadline: new Date(poll.deadline).toISOString(),
+          };
+        } catch (err: any) {
+          onLog("error", `[${agentId}] start_poll failed: ${err.message}`);
+          return { success: false, error: err.message };
+        }
+      },
+    }),
+
+    defineTool("cancel_task", {
+      description:
+        "Cancel a task that is no longer needed (e.g. the user changed direction). " +
+        "Its subtasks and every task depending on it are cancelled too, and teammates working on them are interrupted.",
+      parameters: z.object({
+        taskId: z.string().describe("The ID of the task to cancel"),
+        reason: z.string().optional().describe("Why the task is being cancelled"),
+      }),
+      handler: async ({ taskId, reason }) => {
+        onLog("info", `[${agentId}] 🛑 cancel_task: ${taskId}${reason ? ` — ${reason.slice(0, 120)}` : ""}`);
+        try {
+          const cancelled = bus.cancelTask(taskId, agentId, reason);
+          return { success: true, cancelled: cancelled.map((t) => t.id) };
+        } catch (err: any) {
+          onLog("error", `[${agentId}] cancel_task failed: ${err.message}`);
+          return { success: false, error: err.message };
+        }
+      },
+    }),
+  ];
+}
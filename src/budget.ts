@@ -0,0 +1,223 @@
+/**
+ * Budget — counts what the team spends and enforces caps on it.
+ *
+ * Three meters are kept per agent and for the whole team:
+ * - turns: prompts sent to a session
+ * - premium requests: turns weighted by the model's request multiplier,
+ *   which is how Copilot bills the Premium Requests quota
+ * - tokens: input + output tokens reported by SDK usage events
+ *
+ * Each meter can have a soft and a hard cap, per agent, per team and per
+ * subtree — a sub-lead together with every agent spawned below it.
+ * The tracker only counts and reports which caps were crossed; the
+ * orchestrator decides what to do about it (warn, downgrade, refuse).
+ */
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export const BUDGET_METRICS = ["turns", "premiumRequests", "tokens"] as const;
+
+export type BudgetMetric = (typeof BUDGET_METRICS)[number];
+
+/** Upper bounds per metric; omitted metrics are unlimited. */
+export type BudgetCaps = Partial<Record<BudgetMetric, number>>;
+
+export interface BudgetLimits {
+  soft?: BudgetCaps;
+  hard?: BudgetCaps;
+}
+
+export interface BudgetConfig {
+  /** Caps on each agent's own spend */
+  perAgent?: BudgetLimits;
+  /** Caps on the whole team's spend */
+  team?: BudgetLimits;
+  /** Caps on each sub-lead's subtree: the sub-lead plus everyone below it */
+  perSubtree?: BudgetLimits;
+  /**
+   * At a team soft cap, spawn new teammates on the cheapest model
+   * instead of only warning the Lead (default: false)
+   */
+  downgradeOnSoftCap?: boolean;
+}
+
+export interface Spend {
+  turns: number;
+  premiumRequests: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** inputTokens + outputTokens */
+  tokens: number;
+}
+
+export type BudgetLevel = "ok" | "soft" | "hard";
+
+/** A cap that was reached for the first time. */
+export interface BudgetAlert {
+  /** "team", the agent ID, or "subtree:<sub-lead ID>" */
+  scope: string;
+  level: "soft" | "hard";
+  metric: BudgetMetric;
+  used: number;
+  cap: number;
+}
+
+export interface BudgetReport {
+  team: Spend;
+  teamLevel: BudgetLevel;
+  agents: { agentId: string; spend: Spend; level: BudgetLevel }[];
+  subtrees: { rootId: string; spend: Spend; level: BudgetLevel }[];
+}
+
+// ── Tracker ────────────────────────────────────────────────────────
+
+export class BudgetTracker {
+  private spendByAgent = new Map<string, Spend>();
+  private team = emptySpend();
+  /** Who spawned each agent, so its spend also counts toward enclosing subtrees */
+  private parents = new Map<string, string>();
+  /** Spend of each metered subtree, by sub-lead ID */
+  private subtrees = new Map<string, Spend>();
+  /** Caps already reported, as "scope:level:metric" */
+  private alerted = new Set<string>();
+
+  constructor(private readonly config: BudgetConfig = {}) {}
+
+  get downgradeOnSoftCap(): boolean {
+    return this.config.downgradeOnSoftCap ?? false;
+  }
+
+  /** Count one turn on a model with the given request multiplier. */
+  recordTurn(agentId: string, multiplier: number): BudgetAlert[] {
+    return this.add(agentId, { turns: 1, premiumRequests: multiplier });
+  }
+
+  /** Count tokens from an SDK usage event. */
+  recordUsage(agentId: string, inputTokens = 0, outputTokens = 0): BudgetAlert[] {
+    return this.add(agentId, {
+      inputTokens,
+      outputTokens,
+      tokens: inputTokens + outputTokens,
+    });
+  }
+
+  /** Record that `agentId` was spawned by `parentId`. */
+  setParent(agentId: string, parentId: string): void {
+    this.parents.set(agentId, parentId);
+  }
+
+  /** Start metering the subtree rooted at a sub-lead against the perSubtree caps. */
+  trackSubtree(rootId: string): void {
+    if (!this.subtrees.has(rootId)) this.subtrees.set(rootId, emptySpend());
+  }
+
+  spendOf(agentId: string): Spend {
+    return { ...(this.spendByAgent.get(agentId) ?? emptySpend()) };
+  }
+
+  teamSpend(): Spend {
+    return { ...this.team };
+  }
+
+  /** The highest per-agent cap level the agent's own spend has reached. */
+  agentLevel(agentId: string): BudgetLevel {
+    return this.levelOf(this.spendOf(agentId), this.config.perAgent);
+  }
+
+  teamLevel(): BudgetLevel {
+    return this.levelOf(this.team, this.config.team);
+  }
+
+  /** The highest cap level reached by any metered subtree the agent belongs to. */
+  subtreeLevel(agentId: string): BudgetLevel {
+    let level: BudgetLevel = "ok";
+    for (const rootId of this.enclosingSubtrees(agentId)) {
+      const reached = this.levelOf(this.subtrees.get(rootId)!, this.config.perSubtree);
+      if (reached === "hard") return "hard";
+      if (reached === "soft") level = "soft";
+    }
+    return level;
+  }
+
+  report(): BudgetReport {
+    return {
+      team: this.teamSpend(),
+      teamLevel: this.teamLevel(),
+      agents: [...this.spendByAgent.keys()].map((agentId) => ({
+        agentId,
+        spend: this.spendOf(agentId),
+        level: this.agentLevel(agentId),
+      })),
+      subtrees: [...this.subtrees.entries()].map(([rootId, spend]) => ({
+        rootId,
+        spend: { ...spend },
+        level: this.levelOf(spend, this.config.perSubtree),
+      })),
+    };
+  }
+
+  reset(): void {
+    this.spendByAgent.clear();
+    this.team = emptySpend();
+    this.parents.clear();
+    this.subtrees.clear();
+    this.alerted.clear();
+  }
+
+  private add(agentId: string, delta: Partial<Spend>): BudgetAlert[] {
+    const spend = this.spendByAgent.get(agentId) ?? emptySpend();
+    for (const [key, value] of Object.entries(delta) as [keyof Spend, number][]) {
+      spend[key] += value;
+      this.team[key] += value;
+    }
+    this.spendByAgent.set(agentId, spend);
+    const alerts = [...this.crossed(agentId, spend, this.config.perAgent), ...this.crossed("team", this.team, this.config.team)];
+    for (const rootId of this.enclosingSubtrees(agentId)) {
+      const subtree = this.subtrees.get(rootId)!;
+      for (const [key, value] of Object.entries(delta) as [keyof Spend, number][]) {
+        subtree[key] += value;
+      }
+      alerts.push(...this.crossed(`subtree:${rootId}`, subtree, this.config.perSubtree));
+    }
+    return alerts;
+  }
+
+  /** Metered subtrees containing the agent, innermost first. */
+  private enclosingSubtrees(agentId: string): string[] {
+    const roots: string[] = [];
+    for (let id: string | undefined = agentId; id !== undefined; id = this.parents.get(id)) {
+      if (this.subtrees.has(id)) roots.push(id);
+    }
+    return roots;
+  }
+
+  /** Caps in `limits` that `spend` has reached and that were not reported yet. */
+  private crossed(scope: string, spend: Spend, limits: BudgetLimits | undefined): BudgetAlert[] {
+    const alerts: BudgetAlert[] = [];
+    for (const level of ["hard", "soft"] as const) {
+      for (const metric of BUDGET_METRICS) {
+        const cap = limits?.[level]?.[metric];
+        const key = `${scope}:${level}:${metric}`;
+        if (cap === undefined || spend[metric] < cap || this.alerted.has(key)) continue;
+        this.alerted.add(key);
+        alerts.push({ scope, level, metric, used: spend[metric], cap });
+      }
+    }
+    return alerts;
+  }
+
+  private levelOf(spend: Spend, limits: BudgetLimits | undefined): BudgetLevel {
+    const reached = (caps?: BudgetCaps) =>
+      BUDGET_METRICS.some((m) => {
+        const cap = caps?.[m];
+        return cap !== undefined && spend[m] >= cap;
+      });
+    if (reached(limits?.hard)) return "hard";
+    if (reached(limits?.soft)) return "soft";
+    return "ok";
+  }
+}
+
+function emptySpend(): Spend {
+  return { turns: 0, premiumRequests: 0, inputTokens: 0, outputTokens: 0, tokens: 0 };
+}
@@ -5,7 +5,7 @@
  * to avoid scattered hard-coded strings across the codebase.
  */
 
-/** All models available for agent sessions. */
+/** Built-in models; the ModelRegistry adds SDK-listed and configured ones at runtime. */
 export const AVAILABLE_MODELS = [
   "claude-opus-4.6",
   "claude-sonnet-4.6",
@@ -22,6 +22,13 @@ export const DEFAULT_LEAD_MODEL: ModelName = "claude-opus-4.6";
 /** Default model for Teammate agents when the Lead does not specify one. */
 export const DEFAULT_TEAMMATE_MODEL: ModelName = "claude-sonnet-4.6";
 
+/**
+ * How long the orchestrator waits for one agent turn (the SDK's own
+ * sendAndWait default is 60s).  Must exceed the longest ask_teammate
+ * wait, or a turn blocked on an answer would time out first.
+ */
+export const TURN_TIMEOUT_MS = 10 * 60_000;
+
 /** Human-readable descriptions of each model's strengths. */
 export const MODEL_DESCRIPTIONS: Record<ModelName, string> = {
   "claude-opus-4.6": "complex multi-step reasoning, architecture, security",
@@ -11,19 +11,65 @@ import {
   notifyAgentSpawned,
   notifyTaskCreated,
   notifyTaskCompleted,
+  notifyTaskRetrying,
+  notifyTaskProgress,
+  notifyTaskFailed,
+  notifyTaskCancelled,
+  notifyBlackboardChanged,
 } from "./progress-display.js";
 import * as readline from "node:readline";
+import { currentAttempt } from "./message-bus.js";
 import { DEFAULT_LEAD_MODEL, DEFAULT_TEAMMATE_MODEL, languageDisplayName } from "./constants.js";
+import { parseModelRules } from "./model-router.js";
+import type { BudgetCaps, BudgetConfig } from "./budget.js";
 
 // ── Configuration ──────────────────────────────────────────────────
 
 const MODEL = process.env.COPILOT_MODEL ?? DEFAULT_LEAD_MODEL;
+const DELIVERY_MODE = process.env.DELIVERY_MODE === "poll" ? "poll" : "push";
 const POLL_MS = Number(process.env.POLL_INTERVAL_MS ?? 2000);
+const DEBOUNCE_MS = Number(process.env.DEBOUNCE_MS ?? 250);
 const DEBUG = process.argv.includes("--debug") || process.env.LOG_LEVEL === "debug";
 const LANGUAGE = process.env.COPILOT_LANGUAGE ?? "auto";
+/** Most recent messages shown by /history */
+const HISTORY_LIMIT = 50;
+const TASK_LEASE_MS = Number(process.env.TASK_LEASE_MS ?? 300_000);
+const MAILBOX_MAX_MESSAGES = Number(process.env.MAILBOX_MAX_MESSAGES ?? 200);
+const MAILBOX_MAX_AGE_MS = Number(process.env.MAILBOX_MAX_AGE_MS ?? 3_600_000);
+const MAILBOX_BACKLOG_LIMIT = Number(process.env.MAILBOX_BACKLOG_LIMIT ?? 25);
+const SEND_RATE_LIMIT = Number(process.env.SEND_RATE_LIMIT ?? 30);
+const MAX_TEAMMATES = Number(process.env.MAX_TEAMMATES ?? 8);
+const MAX_BUSY_SESSIONS = Number(process.env.MAX_BUSY_SESSIONS ?? 4);
+const MAX_TEAM_DEPTH = Number(process.env.MAX_TEAM_DEPTH ?? 1);
+const MODEL_RULES = parseModelRules(process.env.MODEL_RULES ?? "");
+const MODELS_PATH = process.env.COPILOT_MODELS_PATH || undefined;
+const STORE_PATH = process.env.COPILOT_STORE_PATH || undefined;
+const RESUME = process.argv.includes("--resume");
+const BUDGET = budgetFromEnv();
 
 // ── Helpers ────────────────────────────────────────────────────────
 
+/**
+ * Hard budget caps from BUDGET_* variables, with soft caps at
+ * BUDGET_SOFT_RATIO (default 0.8) of each.
+ */
+function budgetFromEnv(): BudgetConfig {
+  const cap = (name: string) => (process.env[name] ? Number(process.env[name]) : undefined);
+  const ratio = Number(process.env.BUDGET_SOFT_RATIO ?? 0.8);
+  const soften = (hard: BudgetCaps): BudgetCaps =>
+    Object.fromEntries(Object.entries(hard).map(([metric, n]) => [metric, n === undefined ? n : n * ratio]));
+
+  const team: BudgetCaps = { premiumRequests: cap("BUDGET_PREMIUM_REQUESTS"), tokens: cap("BUDGET_TOKENS") };
+  const perAgent: BudgetCaps = { premiumRequests: cap("BUDGET_AGENT_PREMIUM_REQUESTS") };
+  const perSubtree: BudgetCaps = { premiumRequests: cap("BUDGET_SUBTREE_PREMIUM_REQUESTS") };
+  return {
+    team: { hard: team, soft: soften(team) },
+    perAgent: { hard: perAgent, soft: soften(perAgent) },
+    perSubtree: { hard: perSubtree, soft: soften(perSubtree) },
+    downgradeOnSoftCap: process.env.BUDGET_DOWNGRADE === "true",
+  };
+}
+
 /** Whether we are in tmux multi-pane mode (set after orch init) */
 let tmuxMode = false;
 
@@ -100,7 +146,7 @@ async function interactiveMode(orch: Orchestrator) {
   console.error("╚═══════════════════════════════════════════════════════╝");
   console.error("\x1b[0m");
   console.error(`Lead Model    : \x1b[35m${MODEL}\x1b[0m`);
-  console.error(`Default Model : \x1b[34m${DEFAULT_TEAMMATE_MODEL}\x1b[0m \x1b[90m(Lead can override per teammate)\x1b[0m`);
+  console.error(`Default Model : \x1b[34m${DEFAULT_TEAMMATE_MODEL}\x1b[0m \x1b[90m(Lead can override per teammate; otherwise routed by role keywords)\x1b[0m`);
   console.error(`Language      : \x1b[36m${LANGUAGE === "auto" ? "auto-detect" : languageDisplayName(LANGUAGE)}\x1b[0m`);
   if (DEBUG) {
     console.error(`Debug Mode    : \x1b[33menabled\x1b[0m`);
@@ -125,6 +171,8 @@ async function interactiveMode(orch: Orchestrator) {
   console.error("  /agents   — list active agents");
   console.error("  /tasks    — list all tasks");
   console.error("  /msg <id> <text> — send message to an agent");
+  console.error("  /history [id] — message log, optionally for one agent");
+  console.error("  /inbox <id>   — an agent's mailbox with delivery states");
   console.error("  quit      — exit\n");
 
   // ── Event-driven notifications in main pane (tmux mode) ─────
@@ -136,6 +184,23 @@ async function interactiveMode(orch: Orchestrator) {
     bus.on("task:completed", (task) => {
       console.error(notifyTaskCompleted(task.description, task.assignee));
     });
+    bus.on("task:updated", (task) => {
+      if (task.status === "failed") {
+        console.error(notifyTaskFailed(task.description, task.assignee, task.result));
+      } else if (task.progress && task.progress.updatedAt === task.updatedAt) {
+        // Only updates that carry fresh progress (not claims or releases)
+        console.error(notifyTaskProgress(task.description, task.progress.note, task.progress.percent));
+      }
+    });
+    bus.on("task:cancelled", (task) => {
+      console.error(notifyTaskCancelled(task.description));
+    });
+    bus.on("blackboard:changed", (entry) => {
+      console.error(notifyBlackboardChanged(entry.key, entry.version, entry.updatedBy));
+    });
+    bus.on("task:retrying", (task, attempt) => {
+      console.error(notifyTaskRetrying(task.description, currentAttempt(task), task.maxAttempts, attempt.reason));
+    });
   }
 
   rl.prompt();
@@ -155,7 +220,9 @@ async function interactiveMode(orch: Orchestrator) {
     if (input === "/status") {
       const agents = orch.getAllAgents();
       const tasks = orch.getBus().listTasks();
-      console.error(renderStatus(agents, tasks));
+      console.error(
+        renderStatus(agents, tasks, orch.getBus().listLocks(), orch.getModels(), orch.getBudget().report(), orch.getQueueStatus()),
+      );
       rl.prompt();
       return;
     }
@@ -164,7 +231,7 @@ async function interactiveMode(orch: Orchestrator) {
       const agents = orch.getAllAgents();
       const { renderAgentTree } = await import("./progress-display.js");
       console.error(`\n\x1b[1mActive Agents:\x1b[0m`);
-      console.error(renderAgentTree(agents));
+      console.error(renderAgentTree(agents, orch.getModels()));
       rl.prompt();
       return;
     }
@@ -178,6 +245,36 @@ async function interactiveMode(orch: Orchestrator) {
       return;
     }
 
+    if (input === "/history" || input.startsWith("/history ")) {
+      const participant = input.slice(8).trim() || undefined;
+      const entries = orch.getBus().queryMessages({ participant, limit: HISTORY_LIMIT });
+      const { renderMessageLog } = await import("./progress-display.js");
+      console.error(`\n\x1b[1mMessage History${participant ? ` — ${participant}` : ""}:\x1b[0m`);
+      console.error(renderMessageLog(entries));
+      rl.prompt();
+      return;
+    }
+
+    if (input === "/inbox" || input.startsWith("/inbox ")) {
+      const agentId = input.slice(6).trim();
+      const bus = orch.getBus();
+      if (!agentId) {
+        console.error("Usage: /inbox <agentId>");
+      } else if (!bus.getRegisteredAgents().includes(agentId)) {
+        console.error(`Agent "${agentId}" not found.`);
+      } else {
+        const messages = bus.getMailbox(agentId);
+        const deliveries = new Map(
+          messages.map((m) => [m.id, bus.getDeliveryStatus(m.id).find((d) => d.recipient === agentId)!]),
+        );
+        const { renderInbox } = await import("./progress-display.js");
+        console.error(`\n\x1b[1mInbox — ${agentId}:\x1b[0m`);
+        console.error(renderInbox(messages, deliveries));
+      }
+      rl.prompt();
+      return;
+    }
+
     if (input.startsWith("/msg ")) {
       const parts = input.slice(5).split(" ");
       const targetId = parts[0];
@@ -236,9 +333,23 @@ async function main() {
 
   const orch = new Orchestrator({
     model: MODEL,
+    deliveryMode: DELIVERY_MODE,
     pollIntervalMs: POLL_MS,
+    debounceMs: DEBOUNCE_MS,
     streaming: true,
     language: LANGUAGE,
+    taskLeaseMs: TASK_LEASE_MS,
+    mailboxMaxMessages: MAILBOX_MAX_MESSAGES,
+    mailboxMaxAgeMs: MAILBOX_MAX_AGE_MS,
+    mailboxBacklogLimit: MAILBOX_BACKLOG_LIMIT,
+    sendRateLimit: SEND_RATE_LIMIT,
+    maxTeammates: MAX_TEAMMATES,
+    maxBusySessions: MAX_BUSY_SESSIONS,
+    maxTeamDepth: MAX_TEAM_DEPTH,
+    modelRules: MODEL_RULES,
+    modelsPath: MODELS_PATH,
+    budget: BUDGET,
+    storePath: STORE_PATH,
     onLog: log,
   });
 
@@ -247,6 +358,12 @@ async function main() {
 
   try {
     await orch.start();
+    if (RESUME) {
+      const restored = orch.resume();
+      console.error(
+        `\x1b[36m♻ Resumed previous run: ${restored.tasks} task(s), ${restored.unreadMessages} unread message(s)\x1b[0m`,
+      );
+    }
     await orch.createLead(MODEL);
 
     if (task) {
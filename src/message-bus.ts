@@ -1,23 +1,111 @@
 /**
- * Message Bus — in-memory inter-agent messaging and shared task list.
+ * Message Bus — inter-agent messaging and shared task list.
  *
- * Inspired by Claude Code Agent Teams' mailbox + task list architecture,
- * but kept entirely in-memory for the PoC phase.
+ * Inspired by Claude Code Agent Teams' mailbox + task list architecture.
+ * State lives in memory; every change is also written to a pluggable
+ * MessageStore so a run can be restored after a crash.
  */
 import { EventEmitter } from "node:events";
+import { z } from "zod";
+import { InMemoryMessageStore, type MessageStore, type StoreRecord } from "./message-store.js";
 
 // ─── Types ───────────────────────────────────────────────────────────
 
 export interface AgentMessage {
   id: string;
   from: string;
-  to: string; // "*" = broadcast
+  to: string; // "*" = broadcast, "#name" = channel
   content: string;
   timestamp: number;
   read: boolean;
+  /** Conversation this message belongs to — the ID of its root message */
+  threadId: string;
+  /** ID of the message this one answers, if any */
+  inReplyTo?: string;
+  /** Set when the sender is blocked in ask() waiting for a reply */
+  expectsReply?: boolean;
+  /** Channel ("#frontend") or specialty multicast this copy arrived through */
+  via?: string;
 }
 
-export type TaskStatus = "pending" | "in-progress" | "completed" | "failed";
+/**
+ * One message in the team-wide log: the message as sent (`to` is the
+ * original target — an agent, "*", a channel or a specialty pattern)
+ * plus everyone it was addressed to.  Broadcasts appear once.
+ */
+export interface MessageLogEntry extends Omit<AgentMessage, "read"> {
+  recipients: string[];
+}
+
+/** Filters for queryMessages(). Time bounds are inclusive, in ms. */
+export interface MessageQuery {
+  /** Messages sent by or addressed to this agent */
+  participant?: string;
+  threadId?: string;
+  since?: number;
+  until?: number;
+  /** Only the most recent `limit` matches */
+  limit?: number;
+}
+
+/**
+ * Lifecycle of one message copy: waiting in the mailbox, handed to the
+ * recipient's session, processed (or fetched with read_messages), or
+ * dropped without reaching the recipient.
+ */
+export const DELIVERY_STATES = ["queued", "delivered", "read", "dropped"] as const;
+
+export type DeliveryState = (typeof DELIVERY_STATES)[number];
+
+/** Delivery status of a message for one recipient. */
+export interface MessageDelivery {
+  messageId: string;
+  from: string;
+  recipient: string;
+  state: DeliveryState;
+  queuedAt: number;
+  deliveredAt?: number;
+  readAt?: number;
+  droppedAt?: number;
+  /** Why the message was dropped */
+  reason?: string;
+}
+
+/** What the bus knows about an agent beyond its ID. */
+export interface AgentProfile {
+  specialty?: string;
+}
+
+/** A topic channel and its current members. */
+export interface ChannelInfo {
+  name: string;
+  members: string[];
+}
+
+/**
+ * All task states. "blocked" means a dependency failed, so the task can
+ * never start; "cancelled" means the work is no longer wanted.
+ */
+export const TASK_STATUSES = [
+  "pending",
+  "in-progress",
+  "completed",
+  "failed",
+  "blocked",
+  "cancelled",
+] as const;
+
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+/** One claim of a task by an agent, from claim until it ended. */
+export interface TaskAttempt {
+  assignee: string;
+  startedAt: number;
+  endedAt?: number;
+  outcome?: "completed" | "failed" | "released" | "cancelled";
+  /** Failure reason, or why the claim was released */
+  reason?: string;
+}
 
 export interface Task {
   id: string;
@@ -27,107 +115,876 @@ export interface Task {
   createdBy: string;
   dependsOn: string[];
   result?: string;
+  /** When the assignee's claim lapses unless renewed (in-progress only) */
+  leaseExpiresAt?: number;
+  /** How many failed attempts are allowed before the task fails for good */
+  maxAttempts: number;
+  /** Base retry delay in ms; doubles after each failed attempt */
+  backoffMs: number;
+  /** A re-queued task cannot be claimed before this time */
+  retryAt?: number;
+  /** Every claim of this task, oldest first */
+  attempts: TaskAttempt[];
+  /** Interim progress of the current attempt */
+  progress?: TaskProgress;
+  /** Parent task this is a subtask of; parents roll up from their children */
+  parentId?: string;
+  /** The failed upstream task that made this one "blocked" */
+  blockedBy?: string;
+  /** JSON Schema the structured `data` result must match on completion */
+  resultSchema?: Record<string, unknown>;
+  /** Structured result payload supplied on completion */
+  data?: unknown;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Why an in-progress task went back to the pending pool. */
+export type ReleaseReason = "lease-expired" | "unregistered" | "given-up";
+
+/** Latest interim progress reported by a task's assignee. */
+export interface TaskProgress {
+  note: string;
+  /** Percent complete, 0–100 */
+  percent?: number;
+  updatedAt: number;
+}
+
+export const ARTIFACT_KINDS = ["code", "file", "diff", "text"] as const;
+
+export type ArtifactKind = (typeof ARTIFACT_KINDS)[number];
+
+/**
+ * A named output attached to a completed task.  For `file` artifacts the
+ * content is the file path; the others carry the content itself.
+ */
+export interface TaskArtifact {
+  name: string;
+  kind: ArtifactKind;
+  content: string;
+  /** Language of a `code` snippet, e.g. "typescript" */
+  language?: string;
+  createdBy: string;
   createdAt: number;
+}
+
+/** Structured output an agent may supply alongside its free-text result. */
+export interface TaskOutput {
+  data?: unknown;
+  artifacts?: Array<Pick<TaskArtifact, "name" | "kind" | "content" | "language">>;
+}
+
+/** Everything a task produced, as returned by getTaskResult(). */
+export interface TaskResult {
+  taskId: string;
+  status: TaskStatus;
+  result?: string;
+  data?: unknown;
+  artifacts: TaskArtifact[];
+}
+
+/** One key on the shared blackboard. `version` increments on every write. */
+export interface BlackboardEntry {
+  key: string;
+  value: unknown;
+  version: number;
+  updatedBy: string;
   updatedAt: number;
 }
 
+/**
+ * An advisory lock on a resource — usually a file path or glob such as
+ * "src/api/**".  Nothing enforces it; agents agree to check first.
+ */
+export interface ResourceLock {
+  resource: string;
+  owner: string;
+  acquiredAt: number;
+  expiresAt: number;
+  /** What the owner is doing with the resource */
+  note?: string;
+  /** Agents refused while this lock was held */
+  contenders: string[];
+}
+
+/** A vote cast in a poll. */
+export interface PollVote {
+  voter: string;
+  option: string;
+  rationale: string;
+  castAt: number;
+}
+
+/** A question put to a set of agents, closed when all voted or at the deadline. */
+export interface Poll {
+  id: string;
+  question: string;
+  options: string[];
+  createdBy: string;
+  /** Agents expected to vote */
+  voters: string[];
+  deadline: number;
+  status: "open" | "closed";
+  /** Latest vote per voter, in casting order */
+  votes: PollVote[];
+  closeReason?: "all-voted" | "deadline";
+  createdAt: number;
+  closedAt?: number;
+}
+
+/** Aggregated outcome of a closed poll. */
+export interface PollTally {
+  pollId: string;
+  question: string;
+  reason: "all-voted" | "deadline";
+  counts: Array<{ option: string; votes: number; voters: string[] }>;
+  /** The option with the most votes; undefined on a tie or no votes */
+  winner?: string;
+  /** Options sharing the highest count when there is no single winner */
+  tied: string[];
+  /** Voters who did not vote before the poll closed */
+  missing: string[];
+  votes: PollVote[];
+}
+
+/** Why a lock was released. */
+export type LockReleaseReason = "released" | "expired" | "unregistered";
+
 export interface MessageBusEvents {
-  message: [msg: AgentMessage];
+  /** `recipients` are the agents whose mailboxes received a copy */
+  message: [msg: AgentMessage, recipients: string[]];
+  "message:status": [delivery: MessageDelivery];
+  /** A message could not be delivered; its sender should be told */
+  "message:bounced": [msg: AgentMessage, delivery: MessageDelivery];
   "task:created": [task: Task];
   "task:updated": [task: Task];
   "task:completed": [task: Task];
+  "task:released": [task: Task, previousAssignee: string, reason: ReleaseReason, note?: string];
+  "task:retrying": [task: Task, attempt: TaskAttempt];
+  "task:blocked": [task: Task, failedUpstream: Task];
+  "task:unblocked": [task: Task, dependencies: Task[]];
+  /** `interrupted` is the agent that was working the task, if any */
+  "task:cancelled": [task: Task, interrupted?: string];
+  "blackboard:changed": [entry: BlackboardEntry, previous?: BlackboardEntry];
+  "lock:acquired": [lock: ResourceLock];
+  "lock:released": [lock: ResourceLock, reason: LockReleaseReason];
+  /** `requester` was refused because `lock` overlaps the resource it asked for */
+  "lock:contended": [lock: ResourceLock, requester: string];
+  "poll:started": [poll: Poll];
+  "poll:voted": [poll: Poll, vote: PollVote];
+  "poll:closed": [poll: Poll, tally: PollTally];
+}
+
+export interface CreateTaskOptions {
+  assignee?: string;
+  dependsOn?: string[];
+  /** Make this a subtask of an existing pending or in-progress task */
+  parentId?: string;
+  maxAttempts?: number;
+  backoffMs?: number;
+  /** JSON Schema the completing agent's `data` payload must match */
+  resultSchema?: Record<string, unknown>;
+}
+
+/** Filters, ordering and paging for listTasks() / queryTasks(). */
+export interface TaskQuery {
+  status?: TaskStatus;
+  assignee?: string;
+  createdBy?: string;
+  /** Only tasks that depend on this task ID */
+  dependsOn?: string;
+  /** Only subtasks of this task; `null` for top-level tasks only */
+  parentId?: string | null;
+  /** Case-insensitive substring of the description */
+  search?: string;
+  sortBy?: "createdAt" | "updatedAt";
+  order?: "asc" | "desc";
+  limit?: number;
+  offset?: number;
+}
+
+export interface MessageBusOptions {
+  /** How long a task claim stays valid without a heartbeat, in ms (default: 300000) */
+  leaseMs?: number;
+  /** Default lifetime of a resource lock, in ms (default: 600000) */
+  lockTtlMs?: number;
+  /** Read messages kept per mailbox before the oldest are compacted away (default: 200) */
+  maxMailboxMessages?: number;
+  /** Age in ms after which read messages are compacted away (default: 3600000) */
+  maxMessageAgeMs?: number;
+  /** Unprocessed messages a recipient may have before senders are pushed back (default: 25) */
+  backlogLimit?: number;
+  /** Messages an agent may send per minute (default: 30) */
+  sendRateLimit?: number;
+}
+
+const DEFAULT_LEASE_MS = 300_000;
+const DEFAULT_LOCK_TTL_MS = 600_000;
+const DEFAULT_MAX_MAILBOX_MESSAGES = 200;
+const DEFAULT_MAX_MESSAGE_AGE_MS = 3_600_000;
+const DEFAULT_BACKLOG_LIMIT = 25;
+const DEFAULT_SEND_RATE_LIMIT = 30;
+const RATE_WINDOW_MS = 60_000;
+
+/** Why a message was refused before it reached any mailbox. */
+export interface Backpressure {
+  reason: "recipient-overloaded" | "rate-limited";
+  message: string;
+  /** When it makes sense to try again, if known */
+  retryAfterMs?: number;
+}
+
+/** An outstanding ask() call — one edge of the wait-for graph. */
+interface PendingAsk {
+  target: string;
+  cancel: (reason: Error) => void;
+}
+
+/** Summary of the state recovered by `MessageBus.restore()`. */
+export interface RestoreSummary {
+  agents: string[];
+  tasks: number;
+  unreadMessages: number;
 }
 
 // ─── Message Bus ─────────────────────────────────────────────────────
 
 export class MessageBus extends EventEmitter {
   private mailboxes = new Map<string, AgentMessage[]>();
+  /** Every message sent, in order — the team-wide view of the mailboxes */
+  private messageLog: MessageLogEntry[] = [];
+  /** Delivery status by message ID, then recipient */
+  private deliveries = new Map<string, Map<string, MessageDelivery>>();
+  /** Agents that were registered once and have since been unregistered */
+  private departed = new Set<string>();
   private tasks = new Map<string, Task>();
+  /** Artifacts by task ID — kept off the task so snapshots stay small */
+  private artifacts = new Map<string, TaskArtifact[]>();
+  private profiles = new Map<string, AgentProfile>();
+  /** Channel name ("#frontend") → member agent IDs */
+  private channels = new Map<string, Set<string>>();
+  private blackboard = new Map<string, BlackboardEntry>();
+  /** Held resource locks keyed by normalized resource */
+  private locks = new Map<string, ResourceLock>();
+  private polls = new Map<string, Poll>();
+  /** Deadline timers of open polls */
+  private pollTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private pollCounter = 0;
   private msgCounter = 0;
   private taskCounter = 0;
+  /** Outstanding ask() calls keyed by the waiting agent */
+  private pendingAsks = new Map<string, PendingAsk>();
+  /** Send times within the current rate window, by sender */
+  private sendTimes = new Map<string, number[]>();
+
+  private readonly leaseMs: number;
+  private readonly lockTtlMs: number;
+  private readonly maxMailboxMessages: number;
+  private readonly maxMessageAgeMs: number;
+  private readonly backlogLimit: number;
+  private readonly sendRateLimit: number;
+
+  constructor(
+    private readonly store: MessageStore = new InMemoryMessageStore(),
+    options?: MessageBusOptions,
+  ) {
+    super();
+    this.leaseMs = options?.leaseMs ?? DEFAULT_LEASE_MS;
+    this.lockTtlMs = options?.lockTtlMs ?? DEFAULT_LOCK_TTL_MS;
+    this.maxMailboxMessages = options?.maxMailboxMessages ?? DEFAULT_MAX_MAILBOX_MESSAGES;
+    this.maxMessageAgeMs = options?.maxMessageAgeMs ?? DEFAULT_MAX_MESSAGE_AGE_MS;
+    this.backlogLimit = options?.backlogLimit ?? DEFAULT_BACKLOG_LIMIT;
+    this.sendRateLimit = options?.sendRateLimit ?? DEFAULT_SEND_RATE_LIMIT;
+  }
+
+  /** Whether the backing store survives a process restart. */
+  get isDurable(): boolean {
+    return this.store.durable;
+  }
 
   // ── Agent registration ────────────────────────────────────────────
 
-  registerAgent(agentId: string): void {
+  registerAgent(agentId: string, profile?: AgentProfile): void {
     if (!this.mailboxes.has(agentId)) {
       this.mailboxes.set(agentId, []);
+      if (profile) this.profiles.set(agentId, profile);
+      this.persist({ type: "agent:registered", agentId, specialty: profile?.specialty });
     }
   }
 
-  unregisterAgent(agentId: string): void {
-    this.mailboxes.delete(agentId);
+  getProfile(agentId: string): AgentProfile | undefined {
+    return this.profiles.get(agentId);
+  }
+
+  /**
+   * Remove an agent's mailbox. Any task it still holds goes back to
+   * pending; the released tasks are returned.
+   */
+  unregisterAgent(agentId: string): Task[] {
+    const box = this.mailboxes.get(agentId);
+    if (box) {
+      // Copies still queued or handed over mid-turn were never handled
+      this.dropMessages(agentId, box.map((m) => m.id), "recipient was shut down before reading it");
+      this.mailboxes.delete(agentId);
+      this.departed.add(agentId);
+      this.persist({ type: "agent:unregistered", agentId });
+    }
+    this.dropAgent(agentId);
+    this.releaseAgentLocks(agentId);
+    this.dropVoter(agentId);
+    const released = this.releaseAgentTasks(agentId, "unregistered");
+    // Nobody is left to answer (or to receive the answer)
+    for (const [asker, pending] of this.pendingAsks) {
+      if (asker === agentId || pending.target === agentId) {
+        pending.cancel(new Error(`Agent "${agentId}" was unregistered while a question was pending`));
+      }
+    }
+    return released;
   }
 
   getRegisteredAgents(): string[] {
     return [...this.mailboxes.keys()];
   }
 
+  // ── Channels ──────────────────────────────────────────────────────
+
+  /**
+   * Add an agent to a topic channel, creating the channel on first join.
+   * Returns the normalized channel name ("frontend" → "#frontend").
+   */
+  joinChannel(agentId: string, channel: string): string {
+    if (!this.mailboxes.has(agentId)) throw new Error(`Agent "${agentId}" not registered`);
+    const name = channelName(channel);
+    const members = this.channels.get(name) ?? new Set<string>();
+    if (!members.has(agentId)) {
+      members.add(agentId);
+      this.channels.set(name, members);
+      this.persist({ type: "channel:joined", agentId, channel: name });
+    }
+    return name;
+  }
+
+  /** Remove an agent from a channel; empty channels disappear. */
+  leaveChannel(agentId: string, channel: string): string {
+    const name = channelName(channel);
+    const members = this.channels.get(name);
+    if (!members?.has(agentId)) throw new Error(`"${agentId}" is not a member of ${name}`);
+    members.delete(agentId);
+    if (members.size === 0) this.channels.delete(name);
+    this.persist({ type: "channel:left", agentId, channel: name });
+    return name;
+  }
+
+  getChannels(): ChannelInfo[] {
+    return [...this.channels].map(([name, members]) => ({ name, members: [...members] }));
+  }
+
+  /** Channels an agent belongs to. */
+  getAgentChannels(agentId: string): string[] {
+    return [...this.channels].filter(([, members]) => members.has(agentId)).map(([name]) => name);
+  }
+
   // ── Messaging ─────────────────────────────────────────────────────
 
-  sendMessage(from: string, to: string, content: string): AgentMessage {
+  /**
+   * Send a message to an agent, to every agent (`"*"`) or to the members
+   * of a channel (`"#name"`). When `inReplyTo` is given the message joins
+   * the replied-to message's thread; otherwise it starts a new thread.
+   *
+   * Throws when backpressure applies — see checkBackpressure().
+   */
+  sendMessage(
+    from: string,
+    to: string,
+    content: string,
+    opts?: { inReplyTo?: string; expectsReply?: boolean },
+  ): AgentMessage {
+    let threadId: string | undefined;
+    if (opts?.inReplyTo) {
+      const parent = this.findMessage(opts.inReplyTo);
+      if (!parent) throw new Error(`Message "${opts.inReplyTo}" not found`);
+      threadId = parent.threadId;
+    }
+    const pressure = this.checkBackpressure(from, to, { isReply: opts?.inReplyTo !== undefined });
+    if (pressure) throw new Error(pressure.message);
+
+    const id = `msg-${++this.msgCounter}`;
     const msg: AgentMessage = {
-      id: `msg-${++this.msgCounter}`,
+      id,
       from,
       to,
       content,
       timestamp: Date.now(),
       read: false,
+      threadId: threadId ?? id,
+      inReplyTo: opts?.inReplyTo,
+      expectsReply: opts?.expectsReply,
     };
 
     if (to === "*") {
       // Broadcast to all except sender
-      for (const [agentId, box] of this.mailboxes) {
-        if (agentId !== from) {
-          box.push({ ...msg, to: agentId });
-        }
-      }
+      this.fanOut(msg, this.resolveAddress(from, to));
+    } else if (to.startsWith("#")) {
+      const channel = channelName(to);
+      const members = this.channels.get(channel);
+      if (!members) throw new Error(`Channel "${channel}" does not exist`);
+      msg.to = channel;
+      msg.via = channel;
+      this.fanOut(msg, [...members].filter((id) => id !== from));
+    } else if (this.departed.has(to) && !this.mailboxes.has(to)) {
+      // The recipient shut down after the sender learned about it
+      // Persisted like any copy so the bounce survives a restart
+      const delivery = this.trackQueued(msg, to);
+      this.persist({ type: "message", recipient: to, message: msg });
+      this.logMessage(msg, [to]);
+      this.transition(to, [msg.id], "dropped", `"${to}" has been shut down`);
+      this.emit("message:bounced", msg, { ...delivery });
     } else {
       const box = this.mailboxes.get(to);
       if (!box) {
         throw new Error(`Agent "${to}" not registered`);
       }
       box.push(msg);
+      this.trackQueued(msg, to);
+      this.persist({ type: "message", recipient: to, message: msg });
+      this.logMessage(msg, [to]);
+      this.emit("message", msg, [to]);
     }
-
-    this.emit("message", msg);
+    this.recordSend(from);
     return msg;
   }
 
+  /**
+   * Send a message to every agent whose specialty matches `pattern`
+   * (a case-insensitive regular expression). Throws if nobody matches.
+   */
+  multicast(from: string, pattern: string, content: string): { message: AgentMessage; recipients: string[] } {
+    let re: RegExp;
+    try {
+      re = new RegExp(pattern, "i");
+    } catch (err: unknown) {
+      throw new Error(`Invalid specialty pattern "${pattern}"`, { cause: err });
+    }
+    const recipients = [...this.mailboxes.keys()].filter((id) => {
+      const specialty = this.profiles.get(id)?.specialty;
+      return id !== from && specialty !== undefined && re.test(specialty);
+    });
+    if (recipients.length === 0) throw new Error(`No teammate's specialty matches "${pattern}"`);
+    const pressure = this.checkBackpressure(from, recipients);
+    if (pressure) throw new Error(pressure.message);
+
+    const id = `msg-${++this.msgCounter}`;
+    const via = `specialty:${pattern}`;
+    const message: AgentMessage = {
+      id,
+      from,
+      to: via,
+      content,
+      timestamp: Date.now(),
+      read: false,
+      threadId: id,
+      via,
+    };
+    this.fanOut(message, recipients);
+    this.recordSend(from);
+    return { message, recipients };
+  }
+
+  /** Place a copy of `msg` addressed to each recipient in their mailbox. */
+  private fanOut(msg: AgentMessage, recipients: string[]): void {
+    for (const agentId of recipients) {
+      const copy = { ...msg, to: agentId };
+      this.mailboxes.get(agentId)?.push(copy);
+      this.trackQueued(copy, agentId);
+      this.persist({ type: "message", recipient: agentId, message: copy });
+    }
+    this.logMessage(msg, recipients);
+    this.emit("message", msg, recipients);
+  }
+
+  private logMessage(msg: AgentMessage, recipients: string[]): void {
+    const { read: _read, ...sent } = msg;
+    const entry: MessageLogEntry = { ...sent, recipients: [...recipients] };
+    this.messageLog.push(entry);
+    this.persist({ type: "message:logged", entry });
+  }
+
+  /**
+   * Query the team-wide message log, oldest first.  Unlike mailboxes,
+   * the log keeps messages of agents that have since shut down.
+   */
+  queryMessages(query: MessageQuery = {}): MessageLogEntry[] {
+    const { participant, threadId, since, until, limit } = query;
+    const matches = this.messageLog.filter(
+      (m) =>
+        (!participant || m.from === participant || m.recipients.includes(participant)) &&
+        (!threadId || m.threadId === threadId) &&
+        (since === undefined || m.timestamp >= since) &&
+        (until === undefined || m.timestamp <= until),
+    );
+    const start = limit !== undefined ? Math.max(0, matches.length - limit) : 0;
+    return matches.slice(start).map((m) => ({ ...m, recipients: [...m.recipients] }));
+  }
+
+  /** Every message copy in an agent's mailbox, read or not, oldest first. */
+  getMailbox(agentId: string): AgentMessage[] {
+    return (this.mailboxes.get(agentId) ?? []).map((m) => ({ ...m }));
+  }
+
+  /** Fetch unread messages; they count as read by the recipient. */
   readMessages(agentId: string, markRead = true): AgentMessage[] {
     const box = this.mailboxes.get(agentId);
     if (!box) return [];
 
     const unread = box.filter((m) => !m.read);
     if (markRead) {
-      unread.forEach((m) => (m.read = true));
+      this.transition(agentId, unread.map((m) => m.id), "read");
+      this.compactMailbox(agentId);
     }
     return unread;
   }
 
+  /**
+   * Take unread messages out of the mailbox for injection into the
+   * recipient's session.  They stay "delivered" until the caller
+   * confirms them with acknowledgeMessages() or drops them.
+   */
+  takeMessages(agentId: string): AgentMessage[] {
+    const unread = (this.mailboxes.get(agentId) ?? []).filter((m) => !m.read);
+    this.transition(agentId, unread.map((m) => m.id), "delivered");
+    return unread;
+  }
+
+  /** Mark delivered messages as read once the recipient has processed them. */
+  acknowledgeMessages(agentId: string, messageIds: string[]): void {
+    const delivered = messageIds.filter((id) => this.deliveries.get(id)?.get(agentId)?.state === "delivered");
+    this.transition(agentId, delivered, "read");
+    this.compactMailbox(agentId);
+  }
+
+  /**
+   * Give up on messages that could not reach `agentId` and bounce each
+   * back to its sender.  Messages already read are left alone.
+   */
+  dropMessages(agentId: string, messageIds: string[], reason: string): void {
+    const open = messageIds.filter((id) => {
+      const state = this.deliveries.get(id)?.get(agentId)?.state;
+      return state === "queued" || state === "delivered";
+    });
+    this.transition(agentId, open, "dropped", reason);
+    for (const id of open) {
+      const msg = this.mailboxes.get(agentId)?.find((m) => m.id === id);
+      const delivery = this.deliveries.get(id)?.get(agentId);
+      if (msg && delivery) this.emit("message:bounced", msg, { ...delivery });
+    }
+    this.compactMailbox(agentId);
+  }
+
+  /** Per-recipient delivery status of a message. */
+  getDeliveryStatus(messageId: string): MessageDelivery[] {
+    const byRecipient = this.deliveries.get(messageId);
+    if (!byRecipient) throw new Error(`Message "${messageId}" not found`);
+    return [...byRecipient.values()].map((d) => ({ ...d }));
+  }
+
+  private trackQueued(msg: AgentMessage, recipient: string): MessageDelivery {
+    const delivery: MessageDelivery = {
+      messageId: msg.id,
+      from: msg.from,
+      recipient,
+      state: "queued",
+      queuedAt: msg.timestamp,
+    };
+    const byRecipient = this.deliveries.get(msg.id) ?? new Map<string, MessageDelivery>();
+    byRecipient.set(recipient, delivery);
+    this.deliveries.set(msg.id, byRecipient);
+    return delivery;
+  }
+
+  private setState(delivery: MessageDelivery, state: DeliveryState, at: number, reason?: string): void {
+    delivery.state = state;
+    if (state === "delivered") delivery.deliveredAt = at;
+    if (state === "read") delivery.readAt = at;
+    if (state === "dropped") {
+      delivery.droppedAt = at;
+      delivery.reason = reason;
+    }
+  }
+
+  /** Move message copies in `agentId`'s mailbox to a new delivery state. */
+  private transition(agentId: string, messageIds: string[], state: DeliveryState, reason?: string): void {
+    if (messageIds.length === 0) return;
+    const ids = new Set(messageIds);
+    const at = Date.now();
+    for (const m of this.mailboxes.get(agentId) ?? []) {
+      if (ids.has(m.id)) m.read = true;
+    }
+    this.persist({ type: "message:status", agentId, messageIds, state, at, reason });
+    for (const id of messageIds) {
+      const delivery = this.deliveries.get(id)?.get(agentId);
+      if (!delivery) continue;
+      this.setState(delivery, state, at, reason);
+      this.emit("message:status", { ...delivery });
+    }
+  }
+
   hasUnreadMessages(agentId: string): boolean {
     const box = this.mailboxes.get(agentId);
     if (!box) return false;
     return box.some((m) => !m.read);
   }
 
+  /**
+   * Reply to a message in `agentId`'s mailbox. The reply goes to the
+   * original sender and stays in the same thread.
+   */
+  replyToMessage(agentId: string, messageId: string, content: string): AgentMessage {
+    // Look in the log: the mailbox copy may have been compacted away
+    const original = this.messageLog.find((m) => m.id === messageId && m.recipients.includes(agentId));
+    if (!original) {
+      throw new Error(`Message "${messageId}" not found in mailbox of "${agentId}"`);
+    }
+    return this.sendMessage(agentId, original.from, content, { inReplyTo: messageId });
+  }
+
+  /**
+   * Send `question` to `to` and wait until it replies in the same thread.
+   * Resolves with the reply, which is marked read so it is not delivered
+   * again as a new prompt.
+   *
+   * Rejects immediately if waiting would close a cycle in the wait-for
+   * graph (A asks B while B is asking A), and rejects on timeout or when
+   * either agent is unregistered.
+   */
+  ask(from: string, to: string, question: string, timeoutMs: number): Promise<AgentMessage> {
+    if (from === to) return Promise.reject(new Error("Cannot ask yourself a question"));
+    if (!this.mailboxes.has(to)) return Promise.reject(new Error(`Agent "${to}" not registered`));
+    if (this.pendingAsks.has(from)) {
+      return Promise.reject(new Error(`"${from}" is already waiting for an answer`));
+    }
+
+    // Follow the wait-for chain starting at the target; reaching the asker is a deadlock
+    const chain = [from];
+    for (let cur: string | undefined = to; cur; cur = this.pendingAsks.get(cur)?.target) {
+      chain.push(cur);
+      if (cur === from) {
+        return Promise.reject(new Error(`Deadlock detected: ${chain.join(" → ")}`));
+      }
+    }
+
+    let sent: AgentMessage;
+    try {
+      sent = this.sendMessage(from, to, question, { expectsReply: true });
+    } catch (err: unknown) {
+      return Promise.reject(err);
+    }
+
+    return new Promise<AgentMessage>((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.off("message", onMessage);
+        this.pendingAsks.delete(from);
+      };
+      const onMessage = (msg: AgentMessage) => {
+        if (msg.from !== to || msg.to !== from || msg.threadId !== sent.threadId) return;
+        cleanup();
+        this.transition(from, [msg.id], "read");
+        resolve(msg);
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new Error(`No answer from "${to}" within ${timeoutMs / 1000}s`));
+      }, timeoutMs);
+
+      this.on("message", onMessage);
+      this.pendingAsks.set(from, {
+        target: to,
+        cancel: (reason) => {
+          cleanup();
+          reject(reason);
+        },
+      });
+    });
+  }
+
+  /** Whether some agent is blocked in ask() waiting for `agentId` to answer. */
+  isAwaited(agentId: string): boolean {
+    return [...this.pendingAsks.values()].some((p) => p.target === agentId);
+  }
+
+  /** Look up a sent message by ID in the message log. */
+  findMessage(messageId: string): MessageLogEntry | undefined {
+    return this.messageLog.find((m) => m.id === messageId);
+  }
+
+  /**
+   * Return every message in a thread, oldest first, from the message log
+   * so compacted mailboxes do not lose context.  When `participant` is
+   * given, only messages sent or received by that agent are included.
+   */
+  getThread(threadId: string, participant?: string): MessageLogEntry[] {
+    return this.queryMessages({ threadId, participant });
+  }
+
+  // ── Retention & backpressure ──────────────────────────────────────
+
+  /**
+   * Whether a message from `from` to `to` would be refused right now:
+   * the sender exceeded its per-minute send rate, or a recipient
+   * already has `backlogLimit` messages it has not processed.  `to` is
+   * an address as accepted by sendMessage() ("*" and "#channel" are
+   * checked member by member) or a list of agent IDs.  The orchestrator
+   * ("system") is never pushed back, and replies skip the backlog check
+   * because the recipient is waiting for them.
+   */
+  checkBackpressure(
+    from: string,
+    to?: string | string[],
+    opts?: { isReply?: boolean },
+    now = Date.now(),
+  ): Backpressure | undefined {
+    if (from === "system") return undefined;
+
+    const recent = this.recentSends(from, now);
+    if (recent.length >= this.sendRateLimit) {
+      const retryAfterMs = recent[0] + RATE_WINDOW_MS - now;
+      return {
+        reason: "rate-limited",
+        message: `Rate limited: "${from}" may send ${this.sendRateLimit} messages per minute; retry in ${Math.ceil(retryAfterMs / 1000)}s`,
+        retryAfterMs,
+      };
+    }
+
+    if (to === undefined || opts?.isReply) return undefined;
+    const recipients = Array.isArray(to) ? to : this.resolveAddress(from, to);
+    const overloaded = recipients
+      .filter((id) => this.mailboxes.has(id))
+      .map((id) => ({ id, backlog: this.backlogOf(id) }))
+      .filter((r) => r.backlog >= this.backlogLimit);
+    if (overloaded.length === 1) {
+      const [{ id, backlog }] = overloaded;
+      return {
+        reason: "recipient-overloaded",
+        message: `Recipient overloaded: "${id}" has ${backlog} unprocessed messages; wait for it to catch up or use the task list`,
+      };
+    }
+    if (overloaded.length > 1) {
+      const names = overloaded.map((r) => `"${r.id}" (${r.backlog})`).join(", ");
+      return {
+        reason: "recipient-overloaded",
+        message: `Recipients overloaded: ${names} have too many unprocessed messages; wait for them to catch up or use the task list`,
+      };
+    }
+    return undefined;
+  }
+
+  /** The agents a sendMessage() address reaches, other than the sender. */
+  private resolveAddress(from: string, to: string): string[] {
+    if (to === "*") return [...this.mailboxes.keys()].filter((id) => id !== from);
+    if (to.startsWith("#")) {
+      return [...(this.channels.get(channelName(to)) ?? [])].filter((id) => id !== from);
+    }
+    return [to];
+  }
+
+  /** Messages in `agentId`'s mailbox that are still queued or delivered. */
+  backlogOf(agentId: string): number {
+    return (this.mailboxes.get(agentId) ?? []).filter((m) => {
+      const state = this.deliveries.get(m.id)?.get(agentId)?.state;
+      return state === "queued" || state === "delivered";
+    }).length;
+  }
+
+  /**
+   * Remove read and dropped messages from every mailbox once they are
+   * older than `maxMessageAgeMs`, or beyond the newest
+   * `maxMailboxMessages`, together with their delivery status.
+   * Unprocessed messages are never removed; the message log keeps the
+   * history.
+   * Returns the number of messages removed.
+   */
+  compactMailboxes(now = Date.now()): number {
+    let removed = 0;
+    for (const agentId of this.mailboxes.keys()) {
+      removed += this.compactMailbox(agentId, now);
+    }
+    return removed;
+  }
+
+  private compactMailbox(agentId: string, now = Date.now()): number {
+    const box = this.mailboxes.get(agentId);
+    if (!box) return 0;
+
+    const settled = box.filter((m) => {
+      const state = this.deliveries.get(m.id)?.get(agentId)?.state;
+      return state === "read" || state === "dropped";
+    });
+    const overflow = box.length - this.maxMailboxMessages;
+    const stale = settled.filter(
+      (m, i) => i < overflow || now - m.timestamp > this.maxMessageAgeMs,
+    );
+    if (stale.length === 0) return 0;
+
+    const ids = stale.map((m) => m.id);
+    this.removeFromMailbox(agentId, ids);
+    this.persist({ type: "mailbox:compacted", agentId, messageIds: ids });
+    return ids.length;
+  }
+
+  /** Remove message copies and their delivery records from `agentId`'s mailbox. */
+  private removeFromMailbox(agentId: string, messageIds: string[]): void {
+    for (const id of messageIds) {
+      const byRecipient = this.deliveries.get(id);
+      byRecipient?.delete(agentId);
+      if (byRecipient?.size === 0) this.deliveries.delete(id);
+    }
+    const box = this.mailboxes.get(agentId);
+    if (!box) return;
+    const ids = new Set(messageIds);
+    this.mailboxes.set(agentId, box.filter((m) => !ids.has(m.id)));
+  }
+
+  private recentSends(from: string, now: number): number[] {
+    const recent = (this.sendTimes.get(from) ?? []).filter((t) => now - t < RATE_WINDOW_MS);
+    this.sendTimes.set(from, recent);
+    return recent;
+  }
+
+  private recordSend(from: string, now = Date.now()): void {
+    if (from === "system") return;
+    this.recentSends(from, now).push(now);
+  }
+
   // ── Task List ─────────────────────────────────────────────────────
 
-  createTask(
-    description: string,
-    createdBy: string,
-    opts?: { assignee?: string; dependsOn?: string[] },
-  ): Task {
+  createTask(description: string, createdBy: string, opts?: CreateTaskOptions): Task {
+    if (opts?.parentId) {
+      const parent = this.tasks.get(opts.parentId);
+      if (!parent) throw new Error(`Parent task "${opts.parentId}" not found`);
+      if (parent.status !== "pending" && parent.status !== "in-progress")
+        throw new Error(`Cannot add a subtask to "${parent.id}" (status: ${parent.status})`);
+    }
+    const dependsOn = [...new Set(opts?.dependsOn ?? [])];
+    this.validateDependencies(dependsOn, opts?.parentId);
+    if (opts?.resultSchema) compileSchema(opts.resultSchema);
+
     const task: Task = {
       id: `task-${++this.taskCounter}`,
       description,
       status: "pending",
       createdBy,
       assignee: opts?.assignee,
-      dependsOn: opts?.dependsOn ?? [],
+      dependsOn,
+      parentId: opts?.parentId,
+      maxAttempts: Math.max(1, opts?.maxAttempts ?? 1),
+      backoffMs: opts?.backoffMs ?? 0,
+      resultSchema: opts?.resultSchema,
+      attempts: [],
       createdAt: Date.now(),
       updatedAt: Date.now(),
     };
     this.tasks.set(task.id, task);
+    this.persist({ type: "task", task });
     this.emit("task:created", task);
     return task;
   }
@@ -137,66 +994,953 @@ export class MessageBus extends EventEmitter {
     if (!task) throw new Error(`Task "${taskId}" not found`);
     if (task.status !== "pending")
       throw new Error(`Task "${taskId}" is not claimable (status: ${task.status})`);
+    if (this.getSubtasks(taskId).length > 0)
+      throw new Error(`Task "${taskId}" has subtasks — claim those instead; it completes when they do`);
 
     // Check unresolved dependencies
     for (const depId of task.dependsOn) {
       const dep = this.tasks.get(depId);
-      if (dep && dep.status !== "completed") {
+      if (!dep) throw new Error(`Task "${taskId}" depends on unknown task "${depId}"`);
+      if (dep.status !== "completed") {
         throw new Error(
           `Task "${taskId}" blocked by dependency "${depId}" (status: ${dep.status})`,
         );
       }
     }
 
+    if (task.retryAt !== undefined && task.retryAt > Date.now()) {
+      throw new Error(
+        `Task "${taskId}" is backing off after a failed attempt — retry after ${new Date(task.retryAt).toISOString()}`,
+      );
+    }
+
     task.assignee = agentId;
     task.status = "in-progress";
     task.updatedAt = Date.now();
+    task.leaseExpiresAt = task.updatedAt + this.leaseMs;
+    task.retryAt = undefined;
+    task.attempts.push({ assignee: agentId, startedAt: task.updatedAt });
+    this.persist({ type: "task", task });
     this.emit("task:updated", task);
     return task;
   }
 
-  completeTask(taskId: string, agentId: string, result: string): Task {
-    const task = this.tasks.get(taskId);
-    if (!task) throw new Error(`Task "${taskId}" not found`);
-    if (task.assignee !== agentId)
-      throw new Error(`Task "${taskId}" is not assigned to "${agentId}"`);
+  /**
+   * Mark a task completed.  `output.data` is checked against the task's
+   * result schema, if it declared one; artifacts are stored on the bus
+   * for dependents to fetch with getTaskResult().
+   */
+  completeTask(taskId: string, agentId: string, result: string, output?: TaskOutput): Task {
+    const task = this.ownedTask(taskId, agentId);
+    if (task.status !== "in-progress")
+      throw new Error(`Task "${taskId}" is not in progress (status: ${task.status})`);
+    if (task.resultSchema) validateData(task, output?.data);
+    const artifacts = buildArtifacts(taskId, agentId, output?.artifacts ?? []);
 
+    if (artifacts.length > 0) {
+      this.artifacts.set(taskId, artifacts);
+      this.persist({ type: "artifacts", taskId, artifacts });
+    }
     task.status = "completed";
     task.result = result;
+    task.data = output?.data;
+    task.leaseExpiresAt = undefined;
+    task.progress = undefined;
     task.updatedAt = Date.now();
+    endAttempt(task, "completed");
+    this.persist({ type: "task", task });
     this.emit("task:completed", task);
+    this.unblockDependents(task);
+    this.rollUp(task.parentId);
     return task;
   }
 
+  /**
+   * Record a failed attempt.  While the task has attempts left it goes
+   * back to pending (claimable again after its backoff delay); otherwise
+   * it is marked failed for good.
+   */
   failTask(taskId: string, agentId: string, reason: string): Task {
-    const task = this.tasks.get(taskId);
-    if (!task) throw new Error(`Task "${taskId}" not found`);
+    const task = this.ownedTask(taskId, agentId);
+    if (task.status !== "in-progress")
+      throw new Error(`Task "${taskId}" is not in progress (status: ${task.status})`);
 
-    task.status = "failed";
     task.result = reason;
+    task.leaseExpiresAt = undefined;
+    task.progress = undefined;
     task.updatedAt = Date.now();
+    const attempt = endAttempt(task, "failed", reason);
+
+    const failures = failedAttempts(task);
+    if (attempt && failures < task.maxAttempts) {
+      task.status = "pending";
+      task.assignee = undefined;
+      task.retryAt = task.updatedAt + task.backoffMs * 2 ** (failures - 1);
+      this.persist({ type: "task", task });
+      this.emit("task:updated", task);
+      this.emit("task:retrying", task, attempt);
+      return task;
+    }
+
+    task.status = "failed";
+    this.persist({ type: "task", task });
+    this.emit("task:updated", task);
+    this.blockDependents(task);
+    this.rollUp(task.parentId);
+    return task;
+  }
+
+  /**
+   * Give up an in-progress task: it goes back to pending so another
+   * agent can claim it.  Does not count as a failed attempt.
+   */
+  releaseTask(taskId: string, agentId: string, note?: string): Task {
+    const task = this.ownedTask(taskId, agentId);
+    if (task.status !== "in-progress")
+      throw new Error(`Task "${taskId}" is not in progress (status: ${task.status})`);
+
+    this.requeue(task, "given-up", note);
+    return task;
+  }
+
+  /** Record interim progress on a task. Also renews the assignee's lease. */
+  updateTask(taskId: string, agentId: string, progress: { note: string; percent?: number }): Task {
+    const task = this.ownedTask(taskId, agentId);
+    if (task.status !== "in-progress")
+      throw new Error(`Task "${taskId}" is not in progress (status: ${task.status})`);
+
+    task.updatedAt = Date.now();
+    task.leaseExpiresAt = task.updatedAt + this.leaseMs;
+    task.progress = {
+      note: progress.note,
+      percent: progress.percent === undefined ? undefined : Math.min(100, Math.max(0, progress.percent)),
+      updatedAt: task.updatedAt,
+    };
+    this.persist({ type: "task", task });
     this.emit("task:updated", task);
     return task;
   }
 
-  listTasks(filter?: { status?: TaskStatus; assignee?: string }): Task[] {
+  // ── Dependency graph ──────────────────────────────────────────────
+
+  /**
+   * Reject dependency lists that reference unknown tasks, tasks that can
+   * never complete, or that would close a cycle.  A task waits for its
+   * dependencies and a parent waits for its subtasks, so depending on
+   * anything that (transitively) waits for one of the new task's
+   * ancestors would deadlock.
+   */
+  private validateDependencies(dependsOn: string[], parentId: string | undefined): void {
+    for (const depId of dependsOn) {
+      const dep = this.tasks.get(depId);
+      if (!dep) throw new Error(`Unknown dependency "${depId}"`);
+      if (dep.status === "failed" || dep.status === "blocked" || dep.status === "cancelled")
+        throw new Error(`Dependency "${depId}" can never complete (status: ${dep.status})`);
+    }
+
+    const ancestors = new Set<string>();
+    for (let id = parentId; id; id = this.tasks.get(id)?.parentId) ancestors.add(id);
+    if (ancestors.size === 0) return;
+
+    // Walk everything the dependencies wait for, looking for an ancestor
+    const seen = new Set<string>();
+    const stack = [...dependsOn];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (ancestors.has(id)) {
+        throw new Error(`Dependency cycle: the new task would wait for "${id}", which waits for the new task`);
+      }
+      if (seen.has(id)) continue;
+      seen.add(id);
+      const t = this.tasks.get(id);
+      if (!t) continue;
+      stack.push(...t.dependsOn, ...this.getSubtasks(id).map((c) => c.id));
+    }
+  }
+
+  /**
+   * Mark every pending task that (transitively) depends on `failed` as
+   * "blocked", since its dependencies can no longer be satisfied.
+   */
+  private blockDependents(failed: Task): void {
+    const queue = [failed];
+    while (queue.length > 0) {
+      const upstream = queue.shift()!;
+      for (const t of this.tasks.values()) {
+        if (t.status !== "pending" || !t.dependsOn.includes(upstream.id)) continue;
+        t.status = "blocked";
+        t.blockedBy = failed.id;
+        t.updatedAt = Date.now();
+        this.persist({ type: "task", task: t });
+        this.emit("task:updated", t);
+        this.emit("task:blocked", t, failed);
+        queue.push(t);
+        this.rollUp(t.parentId);
+      }
+    }
+  }
+
+  /**
+   * Emit `task:unblocked` for every pending task whose last outstanding
+   * dependency was `completed`.
+   */
+  private unblockDependents(completed: Task): void {
+    for (const t of this.tasks.values()) {
+      if (t.status !== "pending" || !t.dependsOn.includes(completed.id)) continue;
+      const deps = t.dependsOn.map((id) => this.tasks.get(id));
+      if (deps.every((d) => d?.status === "completed")) {
+        this.emit("task:unblocked", t, deps as Task[]);
+      }
+    }
+  }
+
+  /**
+   * Cancel a task together with everything that can no longer be wanted:
+   * its subtasks and (transitively) every task that depends on it.
+   * Returns all cancelled tasks, the requested one first.
+   */
+  cancelTask(taskId: string, cancelledBy: string, reason?: string): Task[] {
+    const root = this.tasks.get(taskId);
+    if (!root) throw new Error(`Task "${taskId}" not found`);
+    if (isFinished(root.status) && root.status !== "blocked")
+      throw new Error(`Task "${taskId}" cannot be cancelled (status: ${root.status})`);
+
+    const why = `Cancelled by ${cancelledBy}${reason ? `: ${reason}` : ""}`;
+    const cancelled: Task[] = [];
+    const queue = [root];
+    while (queue.length > 0) {
+      const t = queue.shift()!;
+      if (t.status === "cancelled" || t.status === "completed" || t.status === "failed") continue;
+
+      const interrupted = t.status === "in-progress" ? t.assignee : undefined;
+      t.status = "cancelled";
+      t.result = t === root ? why : `${why} (via ${root.id})`;
+      t.leaseExpiresAt = undefined;
+      t.progress = undefined;
+      t.updatedAt = Date.now();
+      endAttempt(t, "cancelled", t.result);
+      this.persist({ type: "task", task: t });
+      this.emit("task:updated", t);
+      this.emit("task:cancelled", t, interrupted);
+      cancelled.push(t);
+
+      queue.push(
+        ...this.getSubtasks(t.id),
+        ...[...this.tasks.values()].filter((d) => d.dependsOn.includes(t.id)),
+      );
+    }
+
+    // Parents outside the cancelled set may now be able to settle
+    for (const t of cancelled) this.rollUp(t.parentId);
+    return cancelled;
+  }
+
+  /** A task's result, structured data and artifacts. */
+  getTaskResult(taskId: string): TaskResult {
+    const task = this.tasks.get(taskId);
+    if (!task) throw new Error(`Task "${taskId}" not found`);
+    return {
+      taskId,
+      status: task.status,
+      result: task.result,
+      data: task.data,
+      artifacts: this.getArtifacts(taskId),
+    };
+  }
+
+  getArtifacts(taskId: string): TaskArtifact[] {
+    return [...(this.artifacts.get(taskId) ?? [])];
+  }
+
+  /** Direct children of a task, in creation order. */
+  getSubtasks(taskId: string): Task[] {
+    return [...this.tasks.values()].filter((t) => t.parentId === taskId);
+  }
+
+  /**
+   * Settle a parent task once all of its subtasks have finished:
+   * completed when every subtask completed, failed otherwise.
+   * Cancelled subtasks are ignored; a parent whose subtasks were all
+   * cancelled is cancelled too.  Recurses upward so a whole epic closes when its last step does.
+   */
+  private rollUp(parentId: string | undefined): void {
+    if (!parentId) return;
+    const parent = this.tasks.get(parentId);
+    if (!parent || (parent.status !== "pending" && parent.status !== "in-progress")) return;
+
+    const children = this.getSubtasks(parentId);
+    // Blocked subtasks can never complete, so they settle as failures;
+    // cancelled subtasks are simply no longer part of the parent's work
+    if (!children.every((c) => isFinished(c.status))) return;
+
+    const live = children.filter((c) => c.status !== "cancelled");
+    if (live.length === 0) {
+      this.cancelTask(parent.id, "system", "all of its subtasks were cancelled");
+      return;
+    }
+
+    const failed = live.filter((c) => c.status !== "completed");
+    const outcome = failed.length === 0 ? "completed" : "failed";
+    parent.status = outcome;
+    parent.result =
+      outcome === "completed"
+        ? `All ${live.length} subtask(s) completed:\n` +
+          live.map((c) => `- ${c.id}: ${c.result ?? "(no result)"}`).join("\n")
+        : `${failed.length} of ${live.length} subtask(s) failed: ` +
+          failed.map((c) => `${c.id} (${c.result ?? "no reason"})`).join(", ");
+    parent.leaseExpiresAt = undefined;
+    parent.progress = undefined;
+    parent.updatedAt = Date.now();
+    endAttempt(parent, outcome, outcome === "failed" ? parent.result : undefined);
+    this.persist({ type: "task", task: parent });
+    this.emit(outcome === "completed" ? "task:completed" : "task:updated", parent);
+    if (outcome === "failed") this.blockDependents(parent);
+    else this.unblockDependents(parent);
+    this.rollUp(parent.parentId);
+  }
+
+  /** Look up a task and check that `agentId` is its assignee. */
+  private ownedTask(taskId: string, agentId: string): Task {
+    const task = this.tasks.get(taskId);
+    if (!task) throw new Error(`Task "${taskId}" not found`);
+    if (task.assignee !== agentId)
+      throw new Error(`Task "${taskId}" is not assigned to "${agentId}"`);
+    if (task.status === "cancelled") throw new Error(`Task "${taskId}" was cancelled: ${task.result}`);
+    return task;
+  }
+
+  /**
+   * Return every in-progress task held by `agentId` to the pending pool
+   * so another agent can claim it.  Returns the released tasks.
+   */
+  releaseAgentTasks(agentId: string, reason: ReleaseReason = "unregistered"): Task[] {
+    const held = [...this.tasks.values()].filter(
+      (t) => t.assignee === agentId && t.status === "in-progress",
+    );
+    held.forEach((t) => this.requeue(t, reason));
+    return held;
+  }
+
+  // ── Leases ────────────────────────────────────────────────────────
+
+  /**
+   * Renew the lease on every in-progress task held by `agentId`.
+   * Called on any sign of life from the agent (turn start, tool call).
+   * Renewals are not persisted — a resumed run re-queues orphaned
+   * tasks anyway.  Returns the number of leases renewed.
+   */
+  heartbeat(agentId: string, now = Date.now()): number {
+    let renewed = 0;
+    for (const task of this.tasks.values()) {
+      if (task.assignee !== agentId || task.status !== "in-progress") continue;
+      task.leaseExpiresAt = now + this.leaseMs;
+      renewed++;
+    }
+    return renewed;
+  }
+
+  /** Return every in-progress task whose lease has lapsed to pending. */
+  reclaimExpiredLeases(now = Date.now()): Task[] {
+    const expired = [...this.tasks.values()].filter(
+      (t) => t.status === "in-progress" && t.leaseExpiresAt !== undefined && t.leaseExpiresAt <= now,
+    );
+    expired.forEach((t) => this.requeue(t, "lease-expired"));
+    return expired;
+  }
+
+  private requeue(task: Task, reason: ReleaseReason, note?: string): void {
+    const previousAssignee = task.assignee ?? "unknown";
+    task.status = "pending";
+    task.assignee = undefined;
+    task.leaseExpiresAt = undefined;
+    task.progress = undefined;
+    task.updatedAt = Date.now();
+    endAttempt(task, "released", note ? `${reason}: ${note}` : reason);
+    this.persist({ type: "task", task });
+    this.emit("task:updated", task);
+    this.emit("task:released", task, previousAssignee, reason, note);
+  }
+
+  listTasks(query?: TaskQuery): Task[] {
+    return this.queryTasks(query).tasks;
+  }
+
+  /**
+   * Filter, sort and page the task list.  `total` counts every match
+   * before `limit`/`offset` are applied.
+   */
+  queryTasks(query: TaskQuery = {}): { tasks: Task[]; total: number } {
     let list = [...this.tasks.values()];
-    if (filter?.status) list = list.filter((t) => t.status === filter.status);
-    if (filter?.assignee) list = list.filter((t) => t.assignee === filter.assignee);
-    return list;
+    if (query.status) list = list.filter((t) => t.status === query.status);
+    if (query.assignee) list = list.filter((t) => t.assignee === query.assignee);
+    if (query.createdBy) list = list.filter((t) => t.createdBy === query.createdBy);
+    if (query.dependsOn) list = list.filter((t) => t.dependsOn.includes(query.dependsOn!));
+    if (query.parentId !== undefined) list = list.filter((t) => (t.parentId ?? null) === query.parentId);
+    if (query.search) {
+      const needle = query.search.toLowerCase();
+      list = list.filter((t) => t.description.toLowerCase().includes(needle));
+    }
+
+    const key = query.sortBy ?? "createdAt";
+    const dir = query.order === "desc" ? -1 : 1;
+    // Creation order breaks ties between equal timestamps
+    list.sort((a, b) => (a[key] - b[key] || counterOf(a.id) - counterOf(b.id)) * dir);
+
+    const offset = Math.max(0, query.offset ?? 0);
+    const end = query.limit !== undefined ? offset + query.limit : undefined;
+    return { tasks: list.slice(offset, end), total: list.length };
   }
 
   getTask(taskId: string): Task | undefined {
     return this.tasks.get(taskId);
   }
 
+  // ── Blackboard ────────────────────────────────────────────────────
+
+  readBlackboard(key: string): BlackboardEntry | undefined {
+    const entry = this.blackboard.get(key);
+    return entry && { ...entry };
+  }
+
+  /** All entries, optionally only keys starting with `prefix`, sorted by key. */
+  listBlackboard(prefix?: string): BlackboardEntry[] {
+    return [...this.blackboard.values()]
+      .filter((e) => !prefix || e.key.startsWith(prefix))
+      .sort((a, b) => a.key.localeCompare(b.key))
+      .map((e) => ({ ...e }));
+  }
+
+  /**
+   * Write a key.  When `expectedVersion` is given the write only succeeds
+   * if the key is still at that version (0 = must not exist yet), so two
+   * agents cannot silently overwrite each other's decisions.
+   */
+  writeBlackboard(key: string, value: unknown, agentId: string, expectedVersion?: number): BlackboardEntry {
+    if (!/^[\w.:/-]+$/.test(key)) {
+      throw new Error(`Invalid blackboard key "${key}" — use letters, digits and . : / - _`);
+    }
+    const previous = this.blackboard.get(key);
+    const current = previous?.version ?? 0;
+    if (expectedVersion !== undefined && expectedVersion !== current) {
+      throw new Error(`Version conflict on "${key}": expected ${expectedVersion}, current is ${current}`);
+    }
+
+    const entry: BlackboardEntry = {
+      key,
+      value: structuredClone(value),
+      version: current + 1,
+      updatedBy: agentId,
+      updatedAt: Date.now(),
+    };
+    this.blackboard.set(key, entry);
+    this.persist({ type: "blackboard", entry });
+    this.emit("blackboard:changed", { ...entry }, previous);
+    return { ...entry };
+  }
+
+  // ── Resource Locks ────────────────────────────────────────────────
+
+  /**
+   * Take an advisory lock on a path or glob.  Fails if another agent
+   * holds a lock on an overlapping resource; re-acquiring your own lock
+   * renews it.  Locks lapse after `ttlMs` unless renewed.
+   */
+  acquireLock(
+    agentId: string,
+    resource: string,
+    opts?: { ttlMs?: number; note?: string },
+    now = Date.now(),
+  ): ResourceLock {
+    this.expireLocks(now);
+    const key = normalizeResource(resource);
+    const conflict = [...this.locks.values()].find(
+      (l) => l.owner !== agentId && resourcesOverlap(l.resource, key),
+    );
+    if (conflict) {
+      if (!conflict.contenders.includes(agentId)) conflict.contenders.push(agentId);
+      this.persist({ type: "lock", lock: conflict });
+      this.emit("lock:contended", conflict, agentId);
+      throw new Error(
+        `"${key}" is locked by "${conflict.owner}" via "${conflict.resource}" ` +
+        `until ${new Date(conflict.expiresAt).toISOString()}${conflict.note ? ` (${conflict.note})` : ""}`,
+      );
+    }
+
+    const existing = this.locks.get(key);
+    const lock: ResourceLock = {
+      resource: key,
+      owner: agentId,
+      acquiredAt: existing?.acquiredAt ?? now,
+      expiresAt: now + (opts?.ttlMs ?? this.lockTtlMs),
+      note: opts?.note ?? existing?.note,
+      contenders: existing?.contenders ?? [],
+    };
+    this.locks.set(key, lock);
+    this.persist({ type: "lock", lock });
+    if (!existing) this.emit("lock:acquired", lock);
+    return lock;
+  }
+
+  releaseLock(agentId: string, resource: string): ResourceLock {
+    const key = normalizeResource(resource);
+    const lock = this.locks.get(key);
+    if (!lock) throw new Error(`"${key}" is not locked`);
+    if (lock.owner !== agentId) throw new Error(`"${key}" is locked by "${lock.owner}", not "${agentId}"`);
+    this.dropLock(lock, "released");
+    return lock;
+  }
+
+  /** Release every lock held by an agent.  Returns the released locks. */
+  releaseAgentLocks(agentId: string): ResourceLock[] {
+    const held = [...this.locks.values()].filter((l) => l.owner === agentId);
+    for (const lock of held) this.dropLock(lock, "unregistered");
+    return held;
+  }
+
+  /** Drop locks whose TTL has passed.  Returns the expired locks. */
+  expireLocks(now = Date.now()): ResourceLock[] {
+    const expired = [...this.locks.values()].filter((l) => l.expiresAt <= now);
+    for (const lock of expired) this.dropLock(lock, "expired");
+    return expired;
+  }
+
+  /** Currently held locks, expired ones excluded. */
+  listLocks(now = Date.now()): ResourceLock[] {
+    this.expireLocks(now);
+    return [...this.locks.values()].map((l) => ({ ...l, contenders: [...l.contenders] }));
+  }
+
+  private dropLock(lock: ResourceLock, reason: LockReleaseReason): void {
+    this.locks.delete(lock.resource);
+    this.persist({ type: "lock:released", resource: lock.resource });
+    this.emit("lock:released", lock, reason);
+  }
+
+  // ── Polls ─────────────────────────────────────────────────────────
+
+  /**
+   * Put a question to `voters` (default: every other registered agent).
+   * The poll closes with a tally as soon as everyone has voted, or at
+   * the deadline.
+   */
+  startPoll(
+    createdBy: string,
+    question: string,
+    options: string[],
+    opts: { deadlineMs: number; voters?: string[] },
+  ): Poll {
+    const unique = [...new Set(options.map((o) => o.trim()).filter(Boolean))];
+    if (unique.length < 2) throw new Error("A poll needs at least two distinct options");
+    const voters = [...new Set(opts.voters ?? this.getRegisteredAgents().filter((id) => id !== createdBy))];
+    const unknown = voters.filter((v) => !this.mailboxes.has(v));
+    if (unknown.length > 0) throw new Error(`Unknown voter(s): ${unknown.join(", ")}`);
+    if (voters.length === 0) throw new Error("A poll needs at least one voter");
+
+    const now = Date.now();
+    const poll: Poll = {
+      id: `poll-${++this.pollCounter}`,
+      question,
+      options: unique,
+      createdBy,
+      voters,
+      deadline: now + opts.deadlineMs,
+      status: "open",
+      votes: [],
+      createdAt: now,
+    };
+    this.polls.set(poll.id, poll);
+    this.persist({ type: "poll", poll });
+    this.schedulePollDeadline(poll);
+    this.emit("poll:started", poll);
+    return poll;
+  }
+
+  /**
+   * Record `voter`'s choice.  Voting again replaces the earlier vote.
+   * `option` may be the option text (case-insensitive) or its 1-based number.
+   */
+  castVote(pollId: string, voter: string, option: string, rationale: string): Poll {
+    const poll = this.polls.get(pollId);
+    if (!poll) throw new Error(`Poll "${pollId}" not found`);
+    if (poll.status !== "open") throw new Error(`Poll "${pollId}" is closed`);
+    if (!poll.voters.includes(voter)) throw new Error(`"${voter}" is not a voter in poll "${pollId}"`);
+
+    const wanted = option.trim();
+    const byNumber = /^\d+$/.test(wanted) ? poll.options[Number(wanted) - 1] : undefined;
+    const chosen = byNumber ?? poll.options.find((o) => o.toLowerCase() === wanted.toLowerCase());
+    if (!chosen) {
+      throw new Error(`"${option}" is not an option of poll "${pollId}" (options: ${poll.options.join(", ")})`);
+    }
+
+    const vote: PollVote = { voter, option: chosen, rationale, castAt: Date.now() };
+    poll.votes = [...poll.votes.filter((v) => v.voter !== voter), vote];
+    this.persist({ type: "poll", poll });
+    this.emit("poll:voted", poll, vote);
+    if (allVoted(poll)) this.closePoll(poll, "all-voted");
+    return poll;
+  }
+
+  getPoll(pollId: string): Poll | undefined {
+    return this.polls.get(pollId);
+  }
+
+  listPolls(): Poll[] {
+    return [...this.polls.values()];
+  }
+
+  private closePoll(poll: Poll, reason: "all-voted" | "deadline"): void {
+    clearTimeout(this.pollTimers.get(poll.id));
+    this.pollTimers.delete(poll.id);
+    poll.status = "closed";
+    poll.closeReason = reason;
+    poll.closedAt = Date.now();
+    this.persist({ type: "poll", poll });
+    this.emit("poll:closed", poll, tallyPoll(poll));
+  }
+
+  private schedulePollDeadline(poll: Poll): void {
+    const timer = setTimeout(() => {
+      if (poll.status === "open") this.closePoll(poll, "deadline");
+    }, Math.max(0, poll.deadline - Date.now()));
+    // An open poll must not keep the process alive on its own
+    timer.unref();
+    this.pollTimers.set(poll.id, timer);
+  }
+
+  /** An unregistered agent can no longer vote; its open polls may now be complete. */
+  private dropVoter(agentId: string): void {
+    for (const poll of this.polls.values()) {
+      if (poll.status !== "open" || !poll.voters.includes(agentId)) continue;
+      if (poll.votes.some((v) => v.voter === agentId)) continue;
+      poll.voters = poll.voters.filter((v) => v !== agentId);
+      this.persist({ type: "poll", poll });
+      if (allVoted(poll)) this.closePoll(poll, "all-voted");
+    }
+  }
+
+  // ── Persistence ───────────────────────────────────────────────────
+
+  /**
+   * Move the backing store's records aside so this run does not append to
+   * an earlier one.  Call on a fresh bus that is not being restored.
+   * Returns where the records went, if there were any.
+   */
+  archiveStore(): string | undefined {
+    return this.store.archive();
+  }
+
+  /**
+   * Rebuild mailboxes, tasks and ID counters by replaying the backing
+   * store.  Call on a fresh bus before any agents register; state already
+   * in memory is replaced.
+   */
+  restore(): RestoreSummary {
+    this.mailboxes.clear();
+    this.messageLog = [];
+    this.deliveries.clear();
+    this.departed.clear();
+    this.tasks.clear();
+    this.artifacts.clear();
+    this.profiles.clear();
+    this.channels.clear();
+    this.blackboard.clear();
+    this.locks.clear();
+    this.polls.clear();
+    this.sendTimes.clear();
+    this.msgCounter = 0;
+    this.taskCounter = 0;
+    this.pollCounter = 0;
+
+    for (const record of this.store.load()) {
+      this.applyRecord(record);
+    }
+    // Open polls resume their countdown; overdue ones close right away
+    for (const poll of this.polls.values()) {
+      if (poll.status === "open") this.schedulePollDeadline(poll);
+    }
+
+    // Copies handed to a turn that never finished were not processed:
+    // queue them again so they are delivered after the resume
+    for (const [agentId, box] of this.mailboxes) {
+      for (const m of box) {
+        const delivery = this.deliveries.get(m.id)?.get(agentId);
+        if (delivery?.state !== "delivered") continue;
+        delivery.state = "queued";
+        delivery.deliveredAt = undefined;
+        m.read = false;
+      }
+    }
+
+    let unreadMessages = 0;
+    for (const box of this.mailboxes.values()) {
+      unreadMessages += box.filter((m) => !m.read).length;
+    }
+    return {
+      agents: this.getRegisteredAgents(),
+      tasks: this.tasks.size,
+      unreadMessages,
+    };
+  }
+
+  private applyRecord(record: StoreRecord): void {
+    switch (record.type) {
+      case "agent:registered":
+        if (!this.mailboxes.has(record.agentId)) this.mailboxes.set(record.agentId, []);
+        if (record.specialty) this.profiles.set(record.agentId, { specialty: record.specialty });
+        break;
+      case "agent:unregistered":
+        this.mailboxes.delete(record.agentId);
+        this.departed.add(record.agentId);
+        this.dropAgent(record.agentId);
+        break;
+      case "channel:joined": {
+        const members = this.channels.get(record.channel) ?? new Set<string>();
+        members.add(record.agentId);
+        this.channels.set(record.channel, members);
+        break;
+      }
+      case "channel:left":
+        this.channels.get(record.channel)?.delete(record.agentId);
+        if (this.channels.get(record.channel)?.size === 0) this.channels.delete(record.channel);
+        break;
+      case "message": {
+        this.mailboxes.get(record.recipient)?.push(record.message);
+        this.trackQueued(record.message, record.recipient);
+        this.msgCounter = Math.max(this.msgCounter, counterOf(record.message.id));
+        break;
+      }
+      case "message:logged":
+        this.messageLog.push(record.entry);
+        break;
+      case "mailbox:compacted":
+        this.removeFromMailbox(record.agentId, record.messageIds);
+        break;
+      case "message:status": {
+        const ids = new Set(record.messageIds);
+        for (const m of this.mailboxes.get(record.agentId) ?? []) {
+          if (ids.has(m.id)) m.read = true;
+        }
+        for (const id of ids) {
+          const delivery = this.deliveries.get(id)?.get(record.agentId);
+          if (delivery) this.setState(delivery, record.state, record.at, record.reason);
+        }
+        break;
+      }
+      case "task":
+        this.tasks.set(record.task.id, record.task);
+        this.taskCounter = Math.max(this.taskCounter, counterOf(record.task.id));
+        break;
+      case "artifacts":
+        this.artifacts.set(record.taskId, record.artifacts);
+        break;
+      case "blackboard":
+        this.blackboard.set(record.entry.key, record.entry);
+        break;
+      case "lock":
+        this.locks.set(record.lock.resource, record.lock);
+        break;
+      case "lock:released":
+        this.locks.delete(record.resource);
+        break;
+      case "poll":
+        this.polls.set(record.poll.id, record.poll);
+        this.pollCounter = Math.max(this.pollCounter, counterOf(record.poll.id));
+        break;
+    }
+  }
+
+  /** Forget an unregistered agent's profile and channel memberships. */
+  private dropAgent(agentId: string): void {
+    this.profiles.delete(agentId);
+    for (const [name, members] of this.channels) {
+      members.delete(agentId);
+      if (members.size === 0) this.channels.delete(name);
+    }
+  }
+
+  private persist(record: StoreRecord): void {
+    this.store.append(record);
+  }
+
   // ── Utilities ─────────────────────────────────────────────────────
 
+  /** Clear all in-memory state, persisted records and listeners. */
   reset(): void {
+    for (const pending of this.pendingAsks.values()) {
+      pending.cancel(new Error("Message bus was reset"));
+    }
     this.mailboxes.clear();
+    this.messageLog = [];
+    this.deliveries.clear();
+    this.departed.clear();
     this.tasks.clear();
+    this.artifacts.clear();
+    this.profiles.clear();
+    this.channels.clear();
+    this.blackboard.clear();
+    this.locks.clear();
+    for (const timer of this.pollTimers.values()) clearTimeout(timer);
+    this.pollTimers.clear();
+    this.polls.clear();
+    this.sendTimes.clear();
     this.msgCounter = 0;
     this.taskCounter = 0;
+    this.pollCounter = 0;
+    this.store.clear();
     this.removeAllListeners();
   }
 }
+
+function allVoted(poll: Poll): boolean {
+  return poll.voters.every((v) => poll.votes.some((x) => x.voter === v));
+}
+
+function tallyPoll(poll: Poll): PollTally {
+  const counts = poll.options.map((option) => {
+    const voters = poll.votes.filter((v) => v.option === option).map((v) => v.voter);
+    return { option, votes: voters.length, voters };
+  });
+  const top = Math.max(...counts.map((c) => c.votes));
+  const leaders = top > 0 ? counts.filter((c) => c.votes === top).map((c) => c.option) : [];
+  return {
+    pollId: poll.id,
+    question: poll.question,
+    reason: poll.closeReason ?? "deadline",
+    counts,
+    winner: leaders.length === 1 ? leaders[0] : undefined,
+    tied: leaders.length > 1 ? leaders : [],
+    missing: poll.voters.filter((v) => !poll.votes.some((x) => x.voter === v)),
+    votes: poll.votes,
+  };
+}
+
+function normalizeResource(resource: string): string {
+  const key = resource.trim().replace(/^\.\//, "").replace(/\/+$/, "");
+  if (!key) throw new Error("Lock resource must not be empty");
+  return key;
+}
+
+/**
+ * Translate a glob ("*" within a segment, "**" across segments, "?") to a
+ * RegExp.  A "**" segment matches zero or more whole directories, so
+ * a file directly in the base directory is matched too.
+ */
+function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*" && glob[i + 2] === "/") {
+      re += "(?:.*/)?";
+      i += 2;
+    } else if (c === "*" && glob[i + 1] === "*") {
+      re += ".*";
+      i++;
+    } else if (c === "*") {
+      re += "[^/]*";
+    } else if (c === "?") {
+      re += "[^/]";
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/**
+ * Whether two lock resources may cover the same file.  A resource also
+ * covers everything beneath it, so locking "src/api" guards
+ * "src/api/users.ts".  Two globs are compared by their literal prefixes,
+ * which errs on the side of reporting a conflict.
+ */
+function resourcesOverlap(a: string, b: string): boolean {
+  if (a === b) return true;
+  const isGlob = (r: string) => /[*?]/.test(r);
+  const under = (path: string, dir: string) => path.startsWith(`${dir}/`);
+  if (!isGlob(a) && !isGlob(b)) return under(a, b) || under(b, a);
+  if (!isGlob(b)) return globToRegExp(a).test(b) || under(a, b);
+  if (!isGlob(a)) return resourcesOverlap(b, a);
+  const pa = a.split(/[*?]/)[0];
+  const pb = b.split(/[*?]/)[0];
+  return pa.startsWith(pb) || pb.startsWith(pa);
+}
+
+/** Normalize a channel name to "#name", rejecting invalid ones. */
+function channelName(channel: string): string {
+  const name = channel.startsWith("#") ? channel : `#${channel}`;
+  if (!/^#[a-z0-9][a-z0-9_-]*$/i.test(name)) {
+    throw new Error(`Invalid channel name "${channel}" — use letters, digits, "-" and "_"`);
+  }
+  return name.toLowerCase();
+}
+
+function compileSchema(schema: Record<string, unknown>): z.ZodType {
+  try {
+    return z.fromJSONSchema(schema);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid result schema: ${message}`, { cause: err });
+  }
+}
+
+function validateData(task: Task, data: unknown): void {
+  if (data === undefined)
+    throw new Error(`Task "${task.id}" requires structured \`data\` matching its result schema`);
+  const parsed = compileSchema(task.resultSchema!).safeParse(data);
+  if (!parsed.success) {
+    throw new Error(
+      `Result data for task "${task.id}" does not match its schema:\n${z.prettifyError(parsed.error)}`,
+    );
+  }
+}
+
+function buildArtifacts(
+  taskId: string,
+  createdBy: string,
+  inputs: NonNullable<TaskOutput["artifacts"]>,
+): TaskArtifact[] {
+  const names = new Set<string>();
+  return inputs.map((a) => {
+    if (!a.name.trim()) throw new Error(`Artifacts of task "${taskId}" must be named`);
+    if (names.has(a.name)) throw new Error(`Duplicate artifact name "${a.name}" on task "${taskId}"`);
+    names.add(a.name);
+    return { ...a, createdBy, createdAt: Date.now() };
+  });
+}
+
+/**
+ * The attempt a task is on (or ended on): failed attempts so far plus
+ * one, capped at `maxAttempts`.
+ */
+export function currentAttempt(task: Task): number {
+  const failures = failedAttempts(task);
+  return task.status === "failed" ? failures : Math.min(failures + 1, task.maxAttempts);
+}
+
+function failedAttempts(task: Task): number {
+  return task.attempts.filter((a) => a.outcome === "failed").length;
+}
+
+/** Whether a task has reached a state it can never leave on its own. */
+function isFinished(status: TaskStatus): boolean {
+  return status === "completed" || status === "failed" || status === "blocked" || status === "cancelled";
+}
+
+/** Close the task's open attempt, if any, and return it. */
+function endAttempt(
+  task: Task,
+  outcome: NonNullable<TaskAttempt["outcome"]>,
+  reason?: string,
+): TaskAttempt | undefined {
+  const open = task.attempts.at(-1);
+  if (!open || open.endedAt !== undefined) return undefined;
+  open.endedAt = task.updatedAt;
+  open.outcome = outcome;
+  open.reason = reason;
+  return open;
+}
+
+/** Extract the numeric suffix of an ID such as "msg-12" or "task-3". */
+function counterOf(id: string): number {
+  const n = Number(id.slice(id.lastIndexOf("-") + 1));
+  return Number.isFinite(n) ? n : 0;
+}
@@ -1,97 +1,232 @@
 /**
- * MessagePoller — periodically checks each agent's mailbox and delivers
- * unread messages as new prompts.
+ * MessagePoller — watches each agent's mailbox and delivers unread
+ * messages as new prompts.
  *
  * Extracted from Orchestrator to separate the polling concern from
  * agent lifecycle management (ar-1).
  *
+ * Two delivery modes are supported:
+ * - "push" — driven by the bus's `message` event.  A per-agent debounce
+ *   window coalesces a burst of messages into a single prompt.
+ * - "poll" — the original fixed-interval `setInterval` loop, kept as a
+ *   fallback.
+ *
  * Design invariant: the poller never decides whether a message can be
  * delivered (busy-state, turn-limit, etc.).  Its sole job is to
  * *detect* unread messages and forward them to the `sendToAgent`
- * callback, which is the single authority on delivery policy.
+ * callback, which is the single authority on delivery policy.  The
+ * callback's outcome is recorded as the messages' delivery state, and
+ * every outcome settles them: "processed" and "enqueued" mark them read
+ * (an enqueued prompt belongs to the SDK session from then on), while
+ * "dropped", "failed" and a thrown error drop and bounce them.
  */
-import type { MessageBus } from "./message-bus.js";
+import type { AgentMessage, MessageBus } from "./message-bus.js";
 import type { ManagedAgent } from "./agent-session.js";
 
 export type LogFn = (level: "info" | "debug" | "warn" | "error", msg: string) => void;
 
+/**
+ * What became of a prompt handed to `sendToAgent`:
+ * - "processed" — the agent ran a turn on it
+ * - "enqueued"  — the agent was busy; the SDK will run it later
+ * - "dropped"   — refused by delivery policy (e.g. the turn limit)
+ * - "failed"    — the turn started but errored
+ */
+export type PromptOutcome = "processed" | "enqueued" | "dropped" | "failed";
+
 /**
  * Callback invoked when messages need to be delivered to an agent.
  * The caller (Orchestrator) is responsible for the actual send logic.
+ * Resolving without an outcome counts as "processed".
  */
-export type SendToAgentFn = (agent: ManagedAgent, prompt: string) => Promise<void>;
+export type SendToAgentFn = (agent: ManagedAgent, prompt: string) => Promise<PromptOutcome | void>;
+
+export type DeliveryMode = "push" | "poll";
 
 export interface MessagePollerConfig {
-  /** Polling interval in ms (default: 2000) */
+  /** Delivery mode (default: "poll") */
+  mode?: DeliveryMode;
+  /** Polling interval in ms, used in "poll" mode (default: 2000) */
   pollIntervalMs: number;
+  /** Debounce window in ms for coalescing bursts, used in "push" mode (default: 250) */
+  debounceMs?: number;
   /** Log callback */
   log: LogFn;
 }
 
 export class MessagePoller {
-  /** Per-agent polling interval handles */
+  /** Per-agent polling interval handles ("poll" mode) */
   private pollHandles = new Map<string, ReturnType<typeof setInterval>>();
+  /** Per-agent pending debounce timers ("push" mode) */
+  private debounceHandles = new Map<string, ReturnType<typeof setTimeout>>();
+  /** Agents currently being watched in "push" mode */
+  private watched = new Map<string, ManagedAgent>();
   private running = true;
+  private readonly mode: DeliveryMode;
+  private readonly onMessage = (msg: AgentMessage, recipients: string[]) =>
+    this.handleMessage(msg, recipients);
 
   constructor(
     private readonly bus: MessageBus,
     private readonly config: MessagePollerConfig,
     private readonly sendToAgent: SendToAgentFn,
-  ) {}
+  ) {
+    this.mode = config.mode ?? "poll";
+    if (this.mode === "push") {
+      this.bus.on("message", this.onMessage);
+    }
+  }
 
   /**
-   * Start polling for a specific agent. Messages found in the agent's
-   * mailbox are formatted and delivered via the sendToAgent callback.
+   * Start watching a specific agent's mailbox. Messages found there are
+   * formatted and delivered via the sendToAgent callback.
    */
   startPolling(agent: ManagedAgent): void {
-    const handle = setInterval(async () => {
-      if (!this.running) return;
-
+    if (this.mode === "push") {
+      this.watched.set(agent.info.id, agent);
+      // Mail may already be waiting (e.g. restored from a previous run)
       if (this.bus.hasUnreadMessages(agent.info.id)) {
-        const msgs = this.bus.readMessages(agent.info.id);
-        if (msgs.length === 0) return;
-
-        // Log each delivered message for visibility
-        for (const m of msgs) {
-          this.config.log(
-            "info",
-            `📨 Delivering message to [${agent.info.name}] from [${m.from}]: ${m.content.slice(0, 100)}`,
-          );
-        }
-
-        const formatted = msgs
-          .map((m) => `[Message from ${m.from}]: ${m.content}`)
-          .join("\n\n");
-
-        const prompt = `You have ${msgs.length} new message(s) from teammates:\n\n${formatted}\n\nPlease read and respond appropriately. If any action is needed, take it. Then check your task list.`;
-
-        try {
-          await this.sendToAgent(agent, prompt);
-        } catch (err: unknown) {
-          const message = err instanceof Error ? err.message : String(err);
-          this.config.log("error", `[${agent.info.name}] message delivery failed: ${message}`);
-        }
+        this.scheduleDelivery(agent.info.id);
       }
+      return;
+    }
+
+    const handle = setInterval(() => {
+      void this.deliver(agent);
     }, this.config.pollIntervalMs);
 
     this.pollHandles.set(agent.info.id, handle);
   }
 
-  /** Stop polling for a specific agent. */
+  /** Stop watching a specific agent. */
   stopPolling(agentId: string): void {
     const handle = this.pollHandles.get(agentId);
     if (handle) {
       clearInterval(handle);
       this.pollHandles.delete(agentId);
     }
+    const pending = this.debounceHandles.get(agentId);
+    if (pending) {
+      clearTimeout(pending);
+      this.debounceHandles.delete(agentId);
+    }
+    this.watched.delete(agentId);
   }
 
-  /** Stop all polling loops. */
+  /** Stop all polling loops and pending deliveries. */
   stopAll(): void {
     this.running = false;
+    this.bus.off("message", this.onMessage);
     for (const handle of this.pollHandles.values()) {
       clearInterval(handle);
     }
     this.pollHandles.clear();
+    for (const handle of this.debounceHandles.values()) {
+      clearTimeout(handle);
+    }
+    this.debounceHandles.clear();
+    this.watched.clear();
+  }
+
+  // ── Push mode ──────────────────────────────────────────────────
+
+  private handleMessage(msg: AgentMessage, recipients: string[]): void {
+    if (!this.running) return;
+    for (const agentId of recipients) {
+      if (this.watched.has(agentId)) this.scheduleDelivery(agentId);
+    }
+  }
+
+  /**
+   * (Re)start the agent's debounce window so that messages arriving in
+   * quick succession are delivered together as one prompt.
+   */
+  private scheduleDelivery(agentId: string): void {
+    const existing = this.debounceHandles.get(agentId);
+    if (existing) clearTimeout(existing);
+
+    const handle = setTimeout(() => {
+      this.debounceHandles.delete(agentId);
+      const agent = this.watched.get(agentId);
+      if (agent) void this.deliver(agent);
+    }, this.config.debounceMs ?? 250);
+
+    this.debounceHandles.set(agentId, handle);
+  }
+
+  // ── Delivery ───────────────────────────────────────────────────
+
+  /** Read the agent's unread messages and forward them as one prompt. */
+  private async deliver(agent: ManagedAgent): Promise<void> {
+    if (!this.running) return;
+    if (!this.bus.hasUnreadMessages(agent.info.id)) return;
+
+    const msgs = this.bus.takeMessages(agent.info.id);
+    if (msgs.length === 0) return;
+    const ids = msgs.map((m) => m.id);
+
+    // Log each delivered message for visibility
+    for (const m of msgs) {
+      this.config.log(
+        "info",
+        `📨 Delivering message to [${agent.info.name}] from [${m.from}]: ${m.content.slice(0, 100)}`,
+      );
+    }
+
+    const formatted = this.renderThreads(msgs);
+
+    const prompt = `You have ${msgs.length} new message(s) from teammates:\n\n${formatted}\n\nPlease read and respond appropriately. If any action is needed, take it. To answer a specific message, use \`reply_message\` with its ID so the answer stays in the same thread. Then check your task list.`;
+
+    try {
+      const outcome = (await this.sendToAgent(agent, prompt)) ?? "processed";
+      if (outcome === "processed" || outcome === "enqueued") {
+        this.bus.acknowledgeMessages(agent.info.id, ids);
+      } else if (outcome === "dropped") {
+        this.bus.dropMessages(agent.info.id, ids, `${agent.info.name} could not take another turn`);
+      } else {
+        this.bus.dropMessages(agent.info.id, ids, `${agent.info.name}'s turn failed`);
+      }
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.config.log("error", `[${agent.info.name}] message delivery failed: ${message}`);
+      this.bus.dropMessages(agent.info.id, ids, `delivery to ${agent.info.name} failed: ${message}`);
+    }
+  }
+
+  /**
+   * Group messages by thread. Standalone messages are rendered as-is;
+   * replies and multi-message threads get a header quoting the message
+   * that started the conversation, so answers can be matched to questions.
+   */
+  private renderThreads(msgs: AgentMessage[]): string {
+    const threads = new Map<string, AgentMessage[]>();
+    for (const m of msgs) {
+      const list = threads.get(m.threadId) ?? [];
+      list.push(m);
+      threads.set(m.threadId, list);
+    }
+
+    const sections: string[] = [];
+    for (const [threadId, list] of threads) {
+      const lines = list.map((m) => {
+        const reply = m.inReplyTo ? `, in reply to ${m.inReplyTo}` : "";
+        const waiting = m.expectsReply
+          ? ` — ${m.from} is blocked waiting for your answer; reply with \`reply_message\` (messageId: ${m.id})`
+          : "";
+        const via = m.via ? ` via ${m.via}` : "";
+        return `[Message ${m.id} from ${m.from}${via}${reply}${waiting}]: ${m.content}`;
+      });
+
+      const isThreaded = list.length > 1 || list.some((m) => m.inReplyTo);
+      if (!isThreaded) {
+        sections.push(lines.join("\n\n"));
+        continue;
+      }
+
+      const root = this.bus.findMessage(threadId);
+      const topic = root ? ` (started by ${root.from}: "${root.content.slice(0, 80)}")` : "";
+      sections.push(`── Thread ${threadId}${topic} ──\n${lines.join("\n")}`);
+    }
+    return sections.join("\n\n");
   }
 }
@@ -0,0 +1,145 @@
+/**
+ * Message Store — pluggable persistence backend for the MessageBus.
+ *
+ * The bus describes every state change as a `StoreRecord` and hands it
+ * to the store.  Replaying the records in order rebuilds mailboxes,
+ * tasks and counters, which is how a crashed run is resumed.
+ *
+ * Two backends are provided:
+ * - `InMemoryMessageStore` (default) — keeps nothing; the bus's own
+ *   in-memory state lasts for the lifetime of the process only,
+ *   matching the original PoC behaviour.
+ * - `JsonlMessageStore` — appends one JSON line per record to a file,
+ *   synchronously, so nothing acknowledged to an agent is lost on crash.
+ */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type {
+  AgentMessage,
+  BlackboardEntry,
+  DeliveryState,
+  MessageLogEntry,
+  Poll,
+  ResourceLock,
+  Task,
+  TaskArtifact,
+} from "./message-bus.js";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+/** A single persisted state change on the bus. */
+export type StoreRecord =
+  | { type: "agent:registered"; agentId: string; specialty?: string }
+  | { type: "agent:unregistered"; agentId: string }
+  /** A message copy placed in `recipient`'s mailbox */
+  | { type: "message"; recipient: string; message: AgentMessage }
+  /** A message as sent, for the team-wide log */
+  | { type: "message:logged"; entry: MessageLogEntry }
+  /** Message copies in `agentId`'s mailbox moved to a new delivery state */
+  | {
+      type: "message:status";
+      agentId: string;
+      messageIds: string[];
+      state: DeliveryState;
+      at: number;
+      reason?: string;
+    }
+  /** Settled message copies removed from `agentId`'s mailbox by retention */
+  | { type: "mailbox:compacted"; agentId: string; messageIds: string[] }
+  | { type: "channel:joined"; agentId: string; channel: string }
+  | { type: "channel:left"; agentId: string; channel: string }
+  /** Full snapshot of a task after it was created or changed */
+  | { type: "task"; task: Task }
+  /** Artifacts attached to a task when it completed */
+  | { type: "artifacts"; taskId: string; artifacts: TaskArtifact[] }
+  /** A blackboard key after it was written */
+  | { type: "blackboard"; entry: BlackboardEntry }
+  /** A resource lock after it was acquired, renewed or contended */
+  | { type: "lock"; lock: ResourceLock }
+  | { type: "lock:released"; resource: string }
+  /** Full snapshot of a poll after it was started, voted on or closed */
+  | { type: "poll"; poll: Poll };
+
+export interface MessageStore {
+  /** Whether records survive a process restart. */
+  readonly durable: boolean;
+  /** Persist a record.  Must not return before the record is stored. */
+  append(record: StoreRecord): void;
+  /** Return every persisted record in append order. */
+  load(): StoreRecord[];
+  /** Discard all persisted records. */
+  clear(): void;
+  /**
+   * Move persisted records out of the way so a new run starts empty.
+   * Returns where they were moved, or undefined if there was nothing to keep.
+   */
+  archive(): string | undefined;
+}
+
+// ─── In-memory backend ───────────────────────────────────────────────
+
+/**
+ * Keeps no records: a non-durable bus can never be restored, so holding
+ * every record for the life of the process would only grow memory.
+ */
+export class InMemoryMessageStore implements MessageStore {
+  readonly durable = false;
+
+  append(): void {}
+
+  load(): StoreRecord[] {
+    return [];
+  }
+
+  clear(): void {}
+
+  archive(): string | undefined {
+    return undefined;
+  }
+}
+
+// ─── Append-only JSONL backend ───────────────────────────────────────
+
+export class JsonlMessageStore implements MessageStore {
+  readonly durable = true;
+
+  constructor(private readonly filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  append(record: StoreRecord): void {
+    fs.appendFileSync(this.filePath, JSON.stringify(record) + "\n", "utf8");
+  }
+
+  load(): StoreRecord[] {
+    if (!fs.existsSync(this.filePath)) return [];
+
+    const lines = fs.readFileSync(this.filePath, "utf8").split("\n");
+    const records: StoreRecord[] = [];
+    lines.forEach((line, i) => {
+      if (!line.trim()) return;
+      try {
+        records.push(JSON.parse(line) as StoreRecord);
+      } catch (err: unknown) {
+        // A torn final line means the process died mid-write — the
+        // record was never acknowledged, so it is safe to drop it.
+        const isLastLine = lines.slice(i + 1).every((l) => !l.trim());
+        if (isLastLine) return;
+        throw new Error(`Corrupt message store "${this.filePath}" at line ${i + 1}`, { cause: err });
+      }
+    });
+    return records;
+  }
+
+  clear(): void {
+    fs.writeFileSync(this.filePath, "", "utf8");
+  }
+
+  /** Rename a non-empty log to "<file>.<timestamp>". */
+  archive(): string | undefined {
+    if (!fs.existsSync(this.filePath) || fs.statSync(this.filePath).size === 0) return undefined;
+    const archived = `${this.filePath}.${Date.now()}`;
+    fs.renameSync(this.filePath, archived);
+    return archived;
+  }
+}
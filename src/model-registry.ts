@@ -0,0 +1,187 @@
+/**
+ * Model Registry — the models teammates can run on, with what each is
+ * good at, what it costs and how much context it takes.
+ *
+ * The registry starts from the built-in models in constants.ts, then
+ * learns from the SDK's model listing and from a user config file:
+ *
+ *   { "models": [{ "id": "gpt-6", "description": "...", "costTier": "premium" }] }
+ *
+ * Config entries win over the SDK listing, which wins over built-ins.
+ * The spawn_teammate schema, the Lead's model table and the display
+ * helpers are all generated from it, so adding a model is config only.
+ */
+import * as fs from "node:fs";
+import { z } from "zod";
+import type { ModelInfo } from "@github/copilot-sdk";
+import { AVAILABLE_MODELS, MODEL_DESCRIPTIONS, type ModelName } from "./constants.js";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export const COST_TIERS = ["low", "standard", "premium"] as const;
+
+export type CostTier = (typeof COST_TIERS)[number];
+
+export interface ModelEntry {
+  id: string;
+  /** What the model is best at, in a few words */
+  description: string;
+  /** Capability tags, e.g. "reasoning", "vision" */
+  capabilities: string[];
+  costTier: CostTier;
+  /** Context window in tokens, when known */
+  contextTokens?: number;
+  /** Compact label for the agent tree (default: derived from the ID) */
+  shortName?: string;
+  /** Premium requests billed per prompt (default: by cost tier) */
+  requestMultiplier?: number;
+}
+
+const ModelEntrySchema = z.object({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  capabilities: z.array(z.string()).optional(),
+  costTier: z.enum(COST_TIERS).optional(),
+  contextTokens: z.number().int().positive().optional(),
+  shortName: z.string().min(1).optional(),
+  requestMultiplier: z.number().nonnegative().optional(),
+});
+
+const ModelConfigSchema = z.object({ models: z.array(ModelEntrySchema) });
+
+/** A config or SDK entry: only `id` is required when updating a known model. */
+export type ModelEntryUpdate = z.infer<typeof ModelEntrySchema>;
+
+/** Capabilities and cost of the built-in models. */
+const BUILTIN_DETAILS: Record<ModelName, Omit<ModelEntry, "id" | "description">> = {
+  "claude-opus-4.6": { capabilities: ["reasoning", "code", "vision"], costTier: "premium", contextTokens: 200_000 },
+  "claude-sonnet-4.6": { capabilities: ["code", "review", "vision"], costTier: "standard", contextTokens: 200_000 },
+  "gpt-5.3-codex": { capabilities: ["code", "refactoring"], costTier: "standard", contextTokens: 400_000 },
+  "claude-haiku-3.5": { capabilities: ["fast"], costTier: "low", contextTokens: 200_000 },
+};
+
+/** Premium requests per prompt for models whose multiplier is unknown. */
+const TIER_MULTIPLIERS: Record<CostTier, number> = { low: 0.33, standard: 1, premium: 3 };
+
+// ── Registry ───────────────────────────────────────────────────────
+
+export class ModelRegistry {
+  private entries = new Map<string, ModelEntry>();
+
+  /** @param configured  Entries from the user's config file */
+  constructor(private readonly configured: ModelEntryUpdate[] = []) {
+    for (const model of AVAILABLE_MODELS) {
+      this.entries.set(model, { id: model, description: MODEL_DESCRIPTIONS[model], ...BUILTIN_DETAILS[model] });
+    }
+    this.merge(configured);
+  }
+
+  /** Add new models and update known ones field by field. */
+  merge(updates: ModelEntryUpdate[]): void {
+    for (const update of updates) {
+      const current = this.entries.get(update.id);
+      const defined = Object.fromEntries(Object.entries(update).filter(([, v]) => v !== undefined));
+      this.entries.set(update.id, {
+        description: "",
+        capabilities: [],
+        costTier: "standard",
+        ...current,
+        ...defined,
+        id: update.id,
+      });
+    }
+  }
+
+  /** Learn models, context sizes and cost tiers from the SDK's listing. */
+  mergeSdkModels(models: ModelInfo[]): void {
+    this.merge(
+      models
+        .filter((m) => m.policy?.state !== "disabled")
+        .map((m) => fromSdkModel(m, this.entries.get(m.id))),
+    );
+    // The user's config still has the last word
+    this.merge(this.configured);
+  }
+
+  list(): ModelEntry[] {
+    return [...this.entries.values()].map((e) => ({ ...e, capabilities: [...e.capabilities] }));
+  }
+
+  ids(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  get(id: string): ModelEntry | undefined {
+    const entry = this.entries.get(id);
+    return entry && { ...entry, capabilities: [...entry.capabilities] };
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  /** Compact label, e.g. "claude-sonnet-4.6" → "sonnet-4.6". */
+  shortName(id: string): string {
+    const explicit = this.entries.get(id)?.shortName;
+    if (explicit) return explicit;
+    const claude = /^claude-([a-z]+)-(.+)$/.exec(id);
+    return claude ? `${claude[1]}-${id.split("-").pop()}` : id;
+  }
+
+  costTier(id: string): CostTier | undefined {
+    return this.entries.get(id)?.costTier;
+  }
+
+  /** Premium requests one prompt to this model costs; unknown models count as 1. */
+  requestMultiplier(id: string): number {
+    const entry = this.entries.get(id);
+    if (!entry) return 1;
+    return entry.requestMultiplier ?? TIER_MULTIPLIERS[entry.costTier];
+  }
+
+  /** The model with the lowest request multiplier, first registered on ties. */
+  cheapest(): string {
+    return this.ids().reduce((best, id) => (this.requestMultiplier(id) < this.requestMultiplier(best) ? id : best));
+  }
+
+  /** Markdown table of every model, for the Lead's system prompt. */
+  renderTable(): string {
+    const rows = this.list().map((e) => {
+      const context = e.contextTokens ? `${Math.round(e.contextTokens / 1000)}k` : "?";
+      return `| ${e.id} | ${e.description || "—"} | ${e.costTier} | ${context} |`;
+    });
+    return ["| Model | Best for | Cost | Context |", "|---|---|---|---|", ...rows].join("\n");
+  }
+}
+
+/** Read model entries from a JSON config file. */
+export function loadModelConfig(filePath: string): ModelEntryUpdate[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (err: unknown) {
+    throw new Error(`Cannot read model config "${filePath}"`, { cause: err });
+  }
+  const parsed = ModelConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid model config "${filePath}":\n${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data.models;
+}
+
+/** Map an SDK model onto a registry update, keeping what we already know. */
+function fromSdkModel(model: ModelInfo, known: ModelEntry | undefined): ModelEntryUpdate {
+  const multiplier = model.billing?.multiplier;
+  const capabilities = new Set(known?.capabilities);
+  if (model.capabilities.supports.vision) capabilities.add("vision");
+  if (model.capabilities.supports.reasoningEffort) capabilities.add("reasoning");
+  return {
+    id: model.id,
+    // The display name (e.g. "GPT-4.1") is not a description of what the
+    // model is good at; leave that to the built-ins and the config file
+    capabilities: [...capabilities],
+    costTier: multiplier === undefined ? undefined : multiplier < 1 ? "low" : multiplier > 1 ? "premium" : "standard",
+    contextTokens: model.capabilities.limits.max_context_window_tokens,
+    requestMultiplier: multiplier,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Model Router — picks a teammate's model from its role and prompt when
+ * the Lead does not choose one.
+ *
+ * Each rule maps keywords to a model.  The default rules are seeded from
+ * the model registry's descriptions, so describing a model's strengths
+ * is enough to route matching work to it; user rules are checked first
+ * and win ties.  Every choice comes with a human-readable reason for the
+ * logs.
+ */
+import { DEFAULT_TEAMMATE_MODEL } from "./constants.js";
+import type { ModelRegistry } from "./model-registry.js";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export interface ModelRule {
+  model: string;
+  /** Lower-case keywords; a keyword matches any word that starts with it */
+  keywords: string[];
+}
+
+export interface ModelChoice {
+  model: string;
+  reason: string;
+}
+
+/** A role keyword counts this many times more than a prompt keyword. */
+const ROLE_WEIGHT = 2;
+
+/** Shorter description words are too likely to match by accident. */
+const MIN_KEYWORD_LENGTH = 3;
+
+/** Description words that say nothing about the kind of work. */
+const STOP_WORDS = new Set([
+  "and", "strong", "tasks", "recommended", "default", "multi", "step", "large", "scale", "file",
+]);
+
+// ── Rules ──────────────────────────────────────────────────────────
+
+/**
+ * One rule per registered model, with keywords taken from its curated
+ * description.  Numbers and very short words are skipped: they say
+ * nothing about the kind of work and would match prompts like "Step 1".
+ */
+export function seedRulesFromRegistry(models: ModelRegistry): ModelRule[] {
+  return models
+    .list()
+    .map((entry) => ({
+      model: entry.id,
+      keywords: [
+        ...new Set(
+          tokenize(entry.description).filter(
+            (w) => w.length >= MIN_KEYWORD_LENGTH && !/\d/.test(w) && !STOP_WORDS.has(w),
+          ),
+        ),
+      ],
+    }))
+    .filter((rule) => rule.keywords.length > 0);
+}
+
+/**
+ * Parse user rules written as `keyword|keyword=model` pairs separated
+ * by semicolons, e.g. `"audit|threat=claude-opus-4.6;readme=claude-haiku-3.5"`.
+ */
+export function parseModelRules(spec: string): ModelRule[] {
+  return spec
+    .split(";")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const eq = part.lastIndexOf("=");
+      const model = part.slice(eq + 1).trim();
+      const keywords = part
+        .slice(0, Math.max(eq, 0))
+        .split("|")
+        .map((k) => k.trim().toLowerCase())
+        .filter(Boolean);
+      if (eq < 0 || !model || keywords.length === 0) {
+        throw new Error(`Invalid model rule "${part}" (expected "keyword|keyword=model")`);
+      }
+      return { model, keywords };
+    });
+}
+
+// ── Router ─────────────────────────────────────────────────────────
+
+export class ModelRouter {
+  constructor(
+    private readonly models: ModelRegistry,
+    private readonly userRules: ModelRule[] = [],
+    private readonly fallback: string = DEFAULT_TEAMMATE_MODEL,
+  ) {
+    const unknown = userRules.find((r) => !models.has(r.model));
+    if (unknown) throw new Error(`Unknown model "${unknown.model}" in model rules`);
+  }
+
+  /**
+   * Score every rule against the role and prompt and return the best
+   * model.  Falls back to the default teammate model when nothing matches.
+   */
+  route(role: string, prompt: string): ModelChoice {
+    const roleWords = tokenize(role);
+    const promptWords = tokenize(prompt);
+
+    let best: { rule: ModelRule; score: number; roleHits: string[]; promptHits: string[] } | undefined;
+    // Seeded per call so models learned from the SDK take part
+    for (const rule of [...this.userRules, ...seedRulesFromRegistry(this.models)]) {
+      const roleHits = rule.keywords.filter((k) => matches(roleWords, k));
+      const promptHits = rule.keywords.filter((k) => !roleHits.includes(k) && matches(promptWords, k));
+      const score = roleHits.length * ROLE_WEIGHT + promptHits.length;
+      if (score > 0 && (!best || score > best.score)) {
+        best = { rule, score, roleHits, promptHits };
+      }
+    }
+
+    if (!best) {
+      return { model: this.fallback, reason: "no routing keyword matched, using the default teammate model" };
+    }
+    const quote = (hits: string[]) => hits.map((k) => `"${k}"`).join(", ");
+    const parts = [
+      best.roleHits.length > 0 ? `role matched ${quote(best.roleHits)}` : "",
+      best.promptHits.length > 0 ? `prompt matched ${quote(best.promptHits)}` : "",
+    ];
+    return { model: best.rule.model, reason: parts.filter(Boolean).join("; ") };
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function matches(words: string[], keyword: string): boolean {
+  return words.some((w) => w.startsWith(keyword));
+}
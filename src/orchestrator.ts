@@ -10,16 +10,44 @@
  * construction time (ar-1).
  */
 import { CopilotClient } from "@github/copilot-sdk";
-import { MessageBus } from "./message-bus.js";
-import { createAgentTools, createLeadTools, type ToolLogger } from "./agent-tools.js";
+import {
+  MessageBus,
+  type AgentMessage,
+  type MessageDelivery,
+  type Poll,
+  type PollTally,
+  type ReleaseReason,
+  type RestoreSummary,
+  type Task,
+} from "./message-bus.js";
+import { JsonlMessageStore } from "./message-store.js";
+import {
+  createAgentTools,
+  createLeadTools,
+  createTeamTools,
+  type SpawnOutcome,
+  type TeamCallbacks,
+  type ToolLogger,
+} from "./agent-tools.js";
 import {
   buildSystemMessage,
   type AgentInfo,
   type ManagedAgent,
 } from "./agent-session.js";
 import { TmuxManager } from "./tmux-pane.js";
-import { DEFAULT_LEAD_MODEL, DEFAULT_TEAMMATE_MODEL, detectLanguage, languageDisplayName } from "./constants.js";
-import { MessagePoller } from "./message-poller.js";
+import {
+  DEFAULT_LEAD_MODEL,
+  DEFAULT_TEAMMATE_MODEL,
+  TURN_TIMEOUT_MS,
+  detectLanguage,
+  languageDisplayName,
+} from "./constants.js";
+import { BudgetTracker, type BudgetAlert, type BudgetConfig } from "./budget.js";
+import { ModelRegistry, loadModelConfig } from "./model-registry.js";
+import { ModelRouter, type ModelRule } from "./model-router.js";
+import { TurnScheduler } from "./turn-scheduler.js";
+import { SpawnQueue } from "./spawn-queue.js";
+import { MessagePoller, type DeliveryMode, type PromptOutcome } from "./message-poller.js";
 import { OutputRouter, TmuxOutputSink, StdoutOutputSink } from "./output-router.js";
 import { execFile } from "node:child_process";
 
@@ -79,21 +107,116 @@ function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise
   });
 }
 
+/** How often expired task leases are reclaimed. */
+const LEASE_SWEEP_INTERVAL_MS = 10_000;
+
+/** Per-dependency cap on results inlined into task:unblocked notifications. */
+const UPSTREAM_RESULT_CHARS = 1_000;
+
+/** Where a new teammate sits in the team hierarchy. */
+export interface SpawnOptions {
+  /** Agent the teammate reports to (default: "lead") */
+  parentId?: string;
+  /** Give the teammate its own spawn and shutdown tools */
+  subLead?: boolean;
+}
+
+/** A spawn_teammate call waiting for a free teammate slot. */
+interface PendingSpawn extends SpawnOptions {
+  name: string;
+  role: string;
+  prompt: string;
+  model?: string;
+}
+
+/** Snapshot of work waiting for capacity, for the progress display. */
+export interface QueueStatus {
+  spawns: { name: string; role: string }[];
+  /** Teammate turns waiting for a free session slot */
+  waitingTurns: number;
+}
+
 export interface OrchestratorConfig {
   /** Model to use for the Lead / default (default: DEFAULT_LEAD_MODEL) */
   model?: string;
-  /** Polling interval in ms for message delivery (default: 2000) */
+  /**
+   * How unread messages reach agents (default: "push").
+   * "push" delivers on the bus's message event; "poll" checks each
+   * mailbox every `pollIntervalMs`.
+   */
+  deliveryMode?: DeliveryMode;
+  /** Polling interval in ms for "poll" delivery mode (default: 2000) */
   pollIntervalMs?: number;
+  /** Debounce window in ms for coalescing message bursts in "push" mode (default: 250) */
+  debounceMs?: number;
   /** Enable streaming output (default: true) */
   streaming?: boolean;
   /** Maximum turns per agent before forced stop (default: 20) */
   maxTurnsPerAgent?: number;
+  /**
+   * Maximum number of live teammates (default: 8). Further spawn
+   * requests from the Lead wait in a queue until a teammate shuts down.
+   */
+  maxTeammates?: number;
+  /**
+   * Maximum number of teammate sessions running a turn at once
+   * (default: 4). Other turns wait and are served round-robin across
+   * teammates. The Lead is not limited, nor is a teammate another
+   * agent is waiting on in ask_teammate.
+   */
+  maxBusySessions?: number;
+  /**
+   * How many levels of teammates may exist below the Lead (default: 1,
+   * a flat team). Above 1, a teammate can be spawned as a sub-lead that
+   * spawns and shuts down teammates of its own.
+   */
+  maxTeamDepth?: number;
+  /**
+   * Soft and hard caps on turns, premium requests and tokens, per agent
+   * and for the team (default: unlimited). At a soft cap the Lead is
+   * warned; an agent at its hard cap takes no more turns, and no
+   * teammates are spawned once the team is at its hard cap.
+   */
+  budget?: BudgetConfig;
+  /**
+   * How long a claimed task stays assigned without any sign of life from
+   * its assignee, in ms (default: 300000). Expired claims return to pending.
+   */
+  taskLeaseMs?: number;
+  /** Read messages kept per mailbox before the oldest are compacted away (default: 200) */
+  mailboxMaxMessages?: number;
+  /** Age in ms after which read messages are compacted away (default: 3600000) */
+  mailboxMaxAgeMs?: number;
+  /**
+   * Unprocessed messages a recipient may have before send_message pushes
+   * back with "recipient overloaded" (default: 25)
+   */
+  mailboxBacklogLimit?: number;
+  /** Messages each agent may send per minute (default: 30) */
+  sendRateLimit?: number;
+  /**
+   * Keyword rules for picking a teammate's model when the Lead does not
+   * choose one. Checked before the rules seeded from the model registry.
+   */
+  modelRules?: ModelRule[];
+  /**
+   * Path of a JSON file listing extra models, or overriding details of
+   * known ones: `{ "models": [{ "id", "description", "capabilities",
+   * "costTier", "contextTokens", "shortName", "requestMultiplier" }] }`.
+   */
+  modelsPath?: string;
   /**
    * BCP-47 language tag to enforce across all agents (e.g. "ja", "en").
    * When set to "auto" (default), language is detected from the first
    * user prompt submitted via submitTask().
    */
   language?: string;
+  /**
+   * Path of an append-only JSONL file backing the message bus.
+   * When set, tasks and mail survive a crash and can be restored with
+   * resume(). When omitted, state is kept in memory only.
+   */
+  storePath?: string;
   /** Log callback for debug output */
   onLog?: (level: "info" | "debug" | "warn" | "error", msg: string) => void;
 }
@@ -102,27 +225,53 @@ export class Orchestrator {
   private client: CopilotClient;
   private bus: MessageBus;
   private agents = new Map<string, ManagedAgent>();
-  private config: Required<OrchestratorConfig>;
+  private config: Required<Omit<OrchestratorConfig, "storePath" | "modelsPath">>;
   private agentCounter = 0;
+  /** Whether resume() restored an earlier run from the store */
+  private resumed = false;
   /** Detected / configured language for the session */
   private language: string | undefined;
   /** @deprecated Dead after DI extraction — use poller.running instead */
   private running = false;
   /** Per-agent turn counter for loop prevention */
   private turnCounts = new Map<string, number>();
+  /** Turns, premium requests and tokens spent, with their caps */
+  private budget: BudgetTracker;
+  /** Slots for concurrent teammate turns */
+  private turns: TurnScheduler;
+  /** Teammate slots, and spawn requests waiting for one */
+  private spawns: SpawnQueue<PendingSpawn>;
   /** tmux pane manager — retained for isTmuxMode check & main pane title */
   private tmux: TmuxManager;
-  /** Handles per-agent message polling */
+  /** Handles per-agent message delivery (push or polling) */
   private poller: MessagePoller;
   /** Routes streaming output to the appropriate sink */
   private router: OutputRouter;
+  /** Models teammates can run on */
+  private models: ModelRegistry;
+  /** Picks teammate models the Lead leaves open */
+  private modelRouter: ModelRouter;
+  /** Periodic check for expired task leases */
+  private leaseSweeper: ReturnType<typeof setInterval> | undefined;
 
   constructor(config?: OrchestratorConfig) {
     this.config = {
       model: config?.model ?? DEFAULT_LEAD_MODEL,
+      deliveryMode: config?.deliveryMode ?? "push",
       pollIntervalMs: config?.pollIntervalMs ?? 2000,
+      debounceMs: config?.debounceMs ?? 250,
       streaming: config?.streaming ?? true,
       maxTurnsPerAgent: config?.maxTurnsPerAgent ?? 20,
+      maxTeammates: config?.maxTeammates ?? 8,
+      maxBusySessions: config?.maxBusySessions ?? 4,
+      maxTeamDepth: config?.maxTeamDepth ?? 1,
+      budget: config?.budget ?? {},
+      taskLeaseMs: config?.taskLeaseMs ?? 300_000,
+      mailboxMaxMessages: config?.mailboxMaxMessages ?? 200,
+      mailboxMaxAgeMs: config?.mailboxMaxAgeMs ?? 3_600_000,
+      mailboxBacklogLimit: config?.mailboxBacklogLimit ?? 25,
+      sendRateLimit: config?.sendRateLimit ?? 30,
+      modelRules: config?.modelRules ?? [],
       language: config?.language ?? "auto",
       onLog: config?.onLog ?? (() => {}),
     };
@@ -131,7 +280,44 @@ export class Orchestrator {
       this.language = this.config.language;
     }
     this.client = new CopilotClient();
-    this.bus = new MessageBus();
+    this.budget = new BudgetTracker(this.config.budget);
+    this.turns = new TurnScheduler(this.config.maxBusySessions);
+    this.spawns = new SpawnQueue(
+      this.config.maxTeammates,
+      () => [...this.agents.values()].filter((a) => a.info.role !== "lead").length,
+      (next) => this.startQueuedSpawn(next),
+    );
+    this.models = new ModelRegistry(config?.modelsPath ? loadModelConfig(config.modelsPath) : []);
+    this.modelRouter = new ModelRouter(this.models, this.config.modelRules, DEFAULT_TEAMMATE_MODEL);
+    this.bus = new MessageBus(
+      config?.storePath ? new JsonlMessageStore(config.storePath) : undefined,
+      {
+        leaseMs: this.config.taskLeaseMs,
+        maxMailboxMessages: this.config.mailboxMaxMessages,
+        maxMessageAgeMs: this.config.mailboxMaxAgeMs,
+        backlogLimit: this.config.mailboxBacklogLimit,
+        sendRateLimit: this.config.sendRateLimit,
+      },
+    );
+    this.bus.on(
+      "task:released",
+      (task: Task, previousAssignee: string, reason: ReleaseReason, note?: string) =>
+        this.notifyTaskReleased(task, previousAssignee, reason, note),
+    );
+    this.bus.on("task:blocked", (task: Task, failedUpstream: Task) =>
+      this.notifyTaskBlocked(task, failedUpstream),
+    );
+    this.bus.on("task:unblocked", (task: Task, dependencies: Task[]) =>
+      this.notifyTaskUnblocked(task, dependencies),
+    );
+    this.bus.on("task:cancelled", (task: Task, interrupted?: string) => {
+      if (interrupted) void this.interruptCancelledWork(task, interrupted);
+    });
+    this.bus.on("message:bounced", (msg: AgentMessage, delivery: MessageDelivery) =>
+      this.bounceMessage(msg, delivery),
+    );
+    this.bus.on("poll:started", (poll: Poll) => this.notifyPollStarted(poll));
+    this.bus.on("poll:closed", (poll: Poll, tally: PollTally) => this.notifyPollClosed(poll, tally));
     this.tmux = new TmuxManager((level, msg) => this.log(level, msg));
 
     // Initialise extracted components via DI
@@ -141,7 +327,9 @@ export class Orchestrator {
     this.poller = new MessagePoller(
       this.bus,
       {
+        mode: this.config.deliveryMode,
         pollIntervalMs: this.config.pollIntervalMs,
+        debounceMs: this.config.debounceMs,
         log: logFn,
       },
       (agent, prompt) => this.sendToAgent(agent, prompt),
@@ -178,7 +366,9 @@ export class Orchestrator {
       this.log("error", "Hint: Ensure 'gh auth login' has been completed and your token has the 'copilot' scope.");
       throw err;
     }
+    await this.refreshModels();
     this.running = true;
+    this.leaseSweeper = setInterval(() => this.sweepLeases(), LEASE_SWEEP_INTERVAL_MS);
     // Set the main pane's tmux title
     if (this.tmux.isAvailable) {
       this.tmux.setMainPaneTitle("@main");
@@ -186,12 +376,29 @@ export class Orchestrator {
     this.log("info", "Copilot client started.");
   }
 
+  /**
+   * Merge the SDK's model listing into the registry.  Failure is not
+   * fatal: the built-in and configured models remain available.
+   */
+  private async refreshModels(): Promise<void> {
+    try {
+      const listed = await withTimeout(this.client.listModels(), 10_000, "CopilotClient.listModels()");
+      this.models.mergeSdkModels(listed);
+      this.log("info", `Model registry: ${this.models.ids().length} models (${listed.length} listed by the SDK)`);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.log("warn", `Could not list models from the SDK, using configured models only: ${message}`);
+    }
+  }
+
   async stop(): Promise<void> {
     this.running = false;
     this.log("info", "Shutting down all agents...");
 
     // Stop all polling
     this.poller.stopAll();
+    clearInterval(this.leaseSweeper);
+    this.spawns.clear();
 
     // Destroy all sessions
     const errors: Error[] = [];
@@ -202,6 +409,7 @@ export class Orchestrator {
         errors.push(e instanceof Error ? e : new Error(String(e)));
       }
     }
+    for (const agentId of this.agents.keys()) this.turns.cancel(agentId);
     this.agents.clear();
     this.turnCounts.clear();
 
@@ -209,44 +417,157 @@ export class Orchestrator {
     this.router.closeAll();
 
     await this.client.stop();
-    this.bus.reset();
+    // A durable store keeps its log on disk so the run can be resumed
+    if (this.bus.isDurable) {
+      this.bus.removeAllListeners();
+    } else {
+      this.bus.reset();
+    }
     this.log("info", `Orchestrator stopped. (${errors.length} cleanup errors)`);
   }
 
+  /**
+   * Restore tasks, counters and unread mail from the durable message store.
+   * Must be called after start() and before createLead().
+   *
+   * Teammate sessions cannot be recovered, so their in-progress tasks go
+   * back to pending and the Lead is told what was restored via its mailbox.
+   */
+  resume(): RestoreSummary {
+    if (!this.bus.isDurable) {
+      throw new Error("Cannot resume: no durable message store configured (storePath)");
+    }
+
+    const summary = this.bus.restore();
+    this.resumed = true;
+
+    // Never reuse a teammate ID that already appears in restored state
+    const knownIds = new Set(summary.agents);
+    for (const t of this.bus.listTasks()) {
+      if (t.assignee) knownIds.add(t.assignee);
+      knownIds.add(t.createdBy);
+    }
+    for (const id of knownIds) {
+      const match = /^teammate-(\d+)-/.exec(id);
+      if (match) this.agentCounter = Math.max(this.agentCounter, Number(match[1]));
+    }
+
+    // Releasing a task notifies the Lead through the task:released handler
+    let released = 0;
+    for (const agentId of summary.agents) {
+      if (agentId === "lead") continue;
+      released += this.bus.unregisterAgent(agentId).length;
+    }
+
+    this.log(
+      "info",
+      `Resumed previous run: ${summary.tasks} task(s), ${summary.unreadMessages} unread message(s), ` +
+      `${released} task(s) returned to pending`,
+    );
+
+    if (summary.tasks > 0) {
+      this.bus.registerAgent("lead");
+      this.bus.sendMessage(
+        "system",
+        "lead",
+        `♻️ This session was resumed from a previous run. ${summary.tasks} task(s) were restored. ` +
+        `Use \`list_tasks\` to review them and spawn teammates to continue the remaining work.`,
+      );
+    }
+
+    return summary;
+  }
+
   // ── Agent Management ──────────────────────────────────────────
 
   /**
-   * Create the Lead agent. Must be called first.
+   * Create the Lead agent. Must be called first. Unless resume() was
+   * called, records left in the store by an earlier run are archived.
    */
   async createLead(model?: string): Promise<ManagedAgent> {
+    // A fresh run must not append to an earlier run's log: IDs restart at
+    // msg-1 / task-1, so a later resume would replay both runs mixed together
+    if (this.bus.isDurable && !this.resumed) {
+      const archived = this.bus.archiveStore();
+      if (archived) {
+        this.log("info", `Previous run's message store moved to ${archived} (use resume() to continue a run)`);
+      }
+    }
     const id = "lead";
     const info: AgentInfo = { id, name: "Lead", role: "lead" };
     return this.createAgent(info, model);
   }
 
   /**
-   * Spawn a Teammate agent. Called by the Lead via the spawn_teammate tool
-   * or programmatically.
+   * Spawn a teammate now if there is room, or queue the request until a
+   * teammate shuts down. Used by the Lead's spawn_teammate tool.
+   */
+  async requestTeammate(
+    name: string,
+    role: string,
+    prompt: string,
+    model?: string,
+    options: SpawnOptions = {},
+  ): Promise<SpawnOutcome> {
+    this.checkSpawnAllowed(model, options);
+    if (this.spawns.hasRoom && this.spawns.pending.length === 0) {
+      const agent = await this.spawnTeammate(name, role, prompt, model, options);
+      return { queued: false, info: agent.info };
+    }
+    const position = this.spawns.enqueue({ name, role, prompt, model, ...options });
+    this.log("info", `Teammate limit (${this.config.maxTeammates}) reached — queued spawn of "${name}"`);
+    return { queued: true, position };
+  }
+
+  /**
+   * Spawn a Teammate agent right away, under the Lead or under a
+   * sub-lead given in `options`. Called by the spawn_teammate tool or
+   * programmatically; throws when the teammate limit is reached.
    */
   async spawnTeammate(
     name: string,
     role: string,
     initialPrompt: string,
     model?: string,
+    options: SpawnOptions = {},
   ): Promise<ManagedAgent> {
+    this.checkSpawnAllowed(model, options);
+    if (!this.spawns.hasRoom) {
+      throw new Error(`Teammate limit (${this.config.maxTeammates}) reached`);
+    }
+    const parentId = options.parentId ?? "lead";
     const id = `teammate-${++this.agentCounter}-${name}`;
-    const info: AgentInfo = { id, name, role: "teammate", specialty: role };
+    const info: AgentInfo = {
+      id,
+      name,
+      role: "teammate",
+      specialty: role,
+      parentId,
+      ...(options.subLead ? { subLead: true } : {}),
+    };
 
-    // Use the model chosen by the Lead, or fall back to the default teammate model
-    const selectedModel = model ?? DEFAULT_TEAMMATE_MODEL;
-    this.log(
-      "info",
-      model
-        ? `Lead chose model "${model}" for teammate "${name}" (${role})`
-        : `Using default teammate model "${selectedModel}" for "${name}" (${role})`,
-    );
+    // Use the model chosen by the Lead, or route on the role and prompt;
+    // past the team's soft cap, optionally fall back to the cheapest model
+    let choice = model
+      ? { model, reason: "chosen by the lead" }
+      : this.modelRouter.route(role, initialPrompt);
+    if (this.budget.downgradeOnSoftCap && this.budget.teamLevel() === "soft") {
+      const cheapest = this.models.cheapest();
+      if (cheapest !== choice.model) {
+        choice = { model: cheapest, reason: `downgraded from ${choice.model}: team budget soft cap reached` };
+      }
+    }
+    info.modelReason = choice.reason;
+    this.log("info", `Model "${choice.model}" for teammate "${name}" (${role}): ${choice.reason}`);
+    const selectedModel = choice.model;
 
-    const agent = await this.createAgent(info, selectedModel);
+    // Hold the teammate slot while the session is created; if creation
+    // fails, the slot goes to the next queued spawn
+    const agent = await this.spawns.reserve(() => this.createAgent(info, selectedModel));
+    const parent = this.agents.get(parentId);
+    if (parent) parent.info.childIds = [...(parent.info.childIds ?? []), id];
+    this.budget.setParent(id, parentId);
+    if (info.subLead) this.budget.trackSubtree(id);
 
     // Prepend a language enforcement hint when the session language is non-English.
     // This ensures each teammate operates in the user's language even if the
@@ -270,7 +591,7 @@ export class Orchestrator {
       try {
         this.bus.sendMessage(
           info.id,
-          "lead",
+          parentId,
           `⚠️ Teammate "${info.name}" failed to initialize: ${message}. The assigned task may need to be reassigned.`,
         );
       } catch {
@@ -282,31 +603,90 @@ export class Orchestrator {
     return agent;
   }
 
+  private checkSpawnAllowed(model: string | undefined, options: SpawnOptions): void {
+    if (this.budget.teamLevel() === "hard") {
+      throw new Error("Team budget exhausted: no more teammates can be spawned. Finish with the current team.");
+    }
+    if (model && !this.models.has(model)) {
+      throw new Error(`Unknown model "${model}". Available: ${this.models.ids().join(", ")}`);
+    }
+    const parentId = options.parentId ?? "lead";
+    const parent = this.agents.get(parentId);
+    if (!parent && parentId !== "lead") throw new Error(`Agent "${parentId}" not found`);
+    if (this.budget.subtreeLevel(parentId) === "hard") {
+      throw new Error(`Sub-team budget exhausted: "${parent?.info.name ?? parentId}" cannot spawn more teammates.`);
+    }
+    const depth = (parent ? this.depthOf(parent.info) : 0) + 1;
+    if (depth > this.config.maxTeamDepth) {
+      throw new Error(`Team depth limit (${this.config.maxTeamDepth}) reached: "${parent?.info.name ?? parentId}" cannot spawn teammates`);
+    }
+    if (options.subLead && depth >= this.config.maxTeamDepth) {
+      throw new Error(`Team depth limit (${this.config.maxTeamDepth}) reached: a teammate at depth ${depth} cannot be a sub-lead`);
+    }
+  }
+
+  /** Levels between the agent and the Lead: 0 for the Lead, 1 for its teammates. */
+  private depthOf(info: AgentInfo): number {
+    let depth = 0;
+    for (let parentId = info.parentId; parentId; parentId = this.agents.get(parentId)?.info.parentId) {
+      depth++;
+    }
+    return depth;
+  }
+
+  /** Whether `agentId` sits anywhere below `ancestorId` in the team hierarchy. */
+  private isDescendant(agentId: string, ancestorId: string): boolean {
+    for (let id = this.agents.get(agentId)?.info.parentId; id; id = this.agents.get(id)?.info.parentId) {
+      if (id === ancestorId) return true;
+    }
+    return false;
+  }
+
+  /** Spawn a queued teammate, telling the agent that asked for it either way. */
+  private async startQueuedSpawn(next: PendingSpawn): Promise<void> {
+    let notice: string;
+    try {
+      const agent = await this.spawnTeammate(next.name, next.role, next.prompt, next.model, next);
+      notice = `✅ Queued teammate "${next.name}" has been spawned as ${agent.info.id} (model: ${agent.info.model}).`;
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.log("error", `Queued spawn of "${next.name}" failed: ${message}`);
+      notice = `⚠️ Queued teammate "${next.name}" could not be spawned: ${message}`;
+    }
+    const requester = next.parentId ?? "lead";
+    if (this.bus.getRegisteredAgents().includes(requester)) {
+      this.bus.sendMessage("system", requester, notice);
+    }
+  }
+
   private async createAgent(info: AgentInfo, model?: string): Promise<ManagedAgent> {
     const resolvedModel = model ?? this.config.model;
     info.model = resolvedModel;
-    this.bus.registerAgent(info.id);
+    this.bus.registerAgent(info.id, { specialty: info.specialty });
     this.turnCounts.set(info.id, 0);
     const teamSize = this.agents.size + 1;
 
     // Build tools for this agent, passing the logger for visibility
     const toolLogger: ToolLogger = (level, msg) => this.log(level, msg);
     const baseTools = createAgentTools(info.id, this.bus, toolLogger);
+    // The Lead and sub-leads spawn under themselves; sub-leads may only shut down their own sub-team
+    const teamCallbacks: TeamCallbacks = {
+      onSpawnTeammate: (name, role, prompt, model, subLead) =>
+        this.requestTeammate(name, role, prompt, model, { parentId: info.id, subLead }),
+      onShutdownTeammate: async (teammateId) => {
+        if (info.role !== "lead" && !this.isDescendant(teammateId, info.id)) {
+          throw new Error(`"${teammateId}" is not in your sub-team`);
+        }
+        await this.shutdownAgent(teammateId);
+      },
+    };
     const tools =
       info.role === "lead"
-        ? [
-            ...baseTools,
-            ...createLeadTools(info.id, this.bus, {
-              onSpawnTeammate: async (name, role, prompt, model) => {
-                const tm = await this.spawnTeammate(name, role, prompt, model);
-                return tm.info.id;
-              },
-              onShutdownTeammate: async (teammateId) => {
-                await this.shutdownAgent(teammateId);
-              },
-            }, toolLogger),
-          ]
-        : baseTools;
+        ? [...baseTools, ...createLeadTools(info.id, this.bus, this.models, teamCallbacks, toolLogger)]
+        : info.subLead
+          ? [...baseTools, ...createTeamTools(info.id, this.models, teamCallbacks, toolLogger)]
+          : baseTools;
+    const canPromote = this.depthOf(info) + 1 < this.config.maxTeamDepth;
 
     let session;
     try {
@@ -315,7 +695,7 @@ export class Orchestrator {
           model: resolvedModel,
           tools,
           systemMessage: {
-            content: buildSystemMessage(info, teamSize, this.language),
+            content: buildSystemMessage(info, teamSize, this.language, this.bus.listBlackboard(), this.models, canPromote),
           },
           streaming: this.config.streaming,
         }),
@@ -347,7 +727,16 @@ export class Orchestrator {
     // Attach streaming listeners — delegated to OutputRouter
     this.router.attachStreamingListeners(session, info);
 
-    // Start message polling for this agent — delegated to MessagePoller
+    // Any tool call is a sign of life that keeps this agent's task leases alive
+    session.on("tool.execution_start", () => {
+      this.bus.heartbeat(info.id);
+    });
+
+    session.on("assistant.usage", (event) => {
+      this.handleBudgetAlerts(this.budget.recordUsage(info.id, event.data.inputTokens, event.data.outputTokens));
+    });
+
+    // Start message delivery for this agent — delegated to MessagePoller
     this.poller.startPolling(agent);
 
     this.log("info", `Agent "${info.name}" (${info.id}) created.`);
@@ -360,22 +749,38 @@ export class Orchestrator {
     if (agent.info.role === "lead")
       throw new Error("Cannot shut down the lead agent");
 
+    // A sub-lead takes its sub-team, and the spawns it queued, down with it
+    this.spawns.discard((s) => s.parentId === agentId);
+    for (const childId of agent.info.childIds ?? []) {
+      if (this.agents.has(childId)) await this.shutdownAgent(childId);
+    }
+    const parent = agent.info.parentId ? this.agents.get(agent.info.parentId) : undefined;
+    if (parent) parent.info.childIds = parent.info.childIds?.filter((id) => id !== agentId);
+
     this.poller.stopPolling(agentId);
+    this.turns.cancel(agentId);
     await agent.session.destroy();
+    const locks = this.bus.releaseAgentLocks(agentId);
+    if (locks.length > 0) {
+      this.log("info", `Released ${locks.length} lock(s) held by "${agent.info.name}"`);
+    }
     this.bus.unregisterAgent(agentId);
     this.agents.delete(agentId);
     this.turnCounts.delete(agentId);
     // Close the output channel (tmux pane etc.)
     this.router.closeChannel(agentId);
     this.log("info", `Agent "${agent.info.name}" shut down.`);
+    // A teammate slot is free: start the next queued spawn in the background
+    void this.spawns.drain();
   }
 
   // ── Agent Communication ────────────────────────────────────────
 
   /**
    * Send a prompt to an agent's session, with busy-state tracking.
+   * Resolves with what became of the prompt.
    */
-  private async sendToAgent(agent: ManagedAgent, prompt: string): Promise<void> {
+  private async sendToAgent(agent: ManagedAgent, prompt: string): Promise<PromptOutcome> {
     // Check turn limit
     const turns = this.turnCounts.get(agent.info.id) ?? 0;
     if (turns >= this.config.maxTurnsPerAgent) {
@@ -383,17 +788,40 @@ export class Orchestrator {
         "warn",
         `[${agent.info.name}] max turns (${this.config.maxTurnsPerAgent}) reached — message dropped`,
       );
-      return;
+      return "dropped";
+    }
+    if (this.budget.agentLevel(agent.info.id) === "hard" || this.budget.subtreeLevel(agent.info.id) === "hard") {
+      this.log("warn", `[${agent.info.name}] budget hard cap reached — message dropped`);
+      return "dropped";
+    }
+
+    // Teammates take a session slot before starting a turn. The Lead never
+    // waits, nor does an agent someone is blocked on in ask_teammate: the
+    // askers keep their slots while they wait, and may hold all of them
+    let holdsSlot = false;
+    if (!agent.busy && agent.info.role !== "lead" && !this.bus.isAwaited(agent.info.id)) {
+      if (this.turns.running >= this.config.maxBusySessions) {
+        this.log("info", `[${agent.info.name}] waiting for a free session slot (${this.turns.depth} queued)`);
+      }
+      if (!(await this.turns.acquire(agent.info.id))) return "dropped";
+      holdsSlot = true;
     }
 
+    // An enqueued prompt runs as a turn of its own once the session is
+    // idle, so it is counted and metered like one
+    this.turnCounts.set(agent.info.id, turns + 1);
+    const multiplier = this.models.requestMultiplier(agent.info.model ?? this.config.model);
+    this.handleBudgetAlerts(this.budget.recordTurn(agent.info.id, multiplier));
+
     if (agent.busy) {
-      this.log("info", `[${agent.info.name}] busy, enqueueing message`);
+      if (holdsSlot) this.turns.release();
+      this.log("info", `[${agent.info.name}] busy, enqueueing message as turn ${turns + 1}/${this.config.maxTurnsPerAgent}`);
       // Enqueue using the SDK's enqueue mode
       await agent.session.send({ prompt, mode: "enqueue" });
-      return;
+      return "enqueued";
     }
 
-    this.turnCounts.set(agent.info.id, turns + 1);
+    this.bus.heartbeat(agent.info.id);
     this.log(
       "info",
       `[${agent.info.name}] ▶ turn ${turns + 1}/${this.config.maxTurnsPerAgent}: ${prompt.slice(0, 100)}...`,
@@ -404,22 +832,248 @@ export class Orchestrator {
       // Update output channel title to show BUSY state (inside try to prevent busy-stuck)
       this.router.updateTitle(agent.info.id, "⏳", agent.info.model);
       this.router.writeStatus(agent.info.id, "working", `turn ${turns + 1}`);
-      await agent.session.sendAndWait({ prompt });
+      await agent.session.sendAndWait({ prompt }, TURN_TIMEOUT_MS);
+      return "processed";
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
+      if (/^Timeout after \d+ms/.test(message)) {
+        // The SDK stops waiting but the turn keeps running; the prompt was delivered
+        this.log("warn", `[${agent.info.name}] turn still running after ${TURN_TIMEOUT_MS / 60_000} min — no longer waiting`);
+        return "processed";
+      }
       this.log("error", `[${agent.info.name}] Error: ${message}`);
       if (message.includes("401") || message.includes("auth") || message.includes("token") || message.includes("403")) {
         this.log("error", `[${agent.info.name}] Authentication error detected. Run 'gh auth login' and restart the application.`);
       }
       this.router.writeStatus(agent.info.id, "idle", message);
+      return "failed";
     } finally {
       agent.busy = false;
+      if (holdsSlot) this.turns.release();
       // Update output channel title back to idle
       this.router.updateTitle(agent.info.id, undefined, agent.info.model);
       this.router.writeStatus(agent.info.id, "idle");
     }
   }
 
+  /** Return an undeliverable message to its sender. */
+  private bounceMessage(msg: AgentMessage, delivery: MessageDelivery): void {
+    this.log("warn", `Message ${msg.id} to ${delivery.recipient} bounced: ${delivery.reason}`);
+    if (msg.from === "system" || !this.bus.getRegisteredAgents().includes(msg.from)) return;
+    this.bus.sendMessage(
+      "system",
+      msg.from,
+      `↩️ Your message ${msg.id} to ${delivery.recipient} was not delivered (${delivery.reason}):\n` +
+      `"${msg.content.slice(0, 300)}"\n\nFind another teammate or handle it yourself.`,
+    );
+  }
+
+  // ── Budget ────────────────────────────────────────────────────
+
+  /** Log newly reached budget caps and tell the Lead what they mean. */
+  private handleBudgetAlerts(alerts: BudgetAlert[]): void {
+    const nameOf = (agentId: string) => this.agents.get(agentId)?.info.name ?? agentId;
+    for (const alert of alerts) {
+      const subLeadId = alert.scope.startsWith("subtree:") ? alert.scope.slice("subtree:".length) : undefined;
+      const who =
+        alert.scope === "team"
+          ? "The team"
+          : subLeadId
+            ? `The sub-team of "${nameOf(subLeadId)}"`
+            : `"${nameOf(alert.scope)}"`;
+      const used = `${formatSpend(alert.used)}/${formatSpend(alert.cap)} ${alert.metric}`;
+      this.log("warn", `Budget ${alert.level} cap: ${who} used ${used}`);
+
+      let notice: string;
+      if (alert.level === "soft") {
+        const advice =
+          alert.scope === "team" && this.budget.downgradeOnSoftCap
+            ? `New teammates will run on ${this.models.cheapest()}.`
+            : "Prefer cheaper models, avoid new teammates and start wrapping up.";
+        notice = `💸 Budget warning: ${who} used ${used} (soft cap). ${advice}`;
+      } else if (alert.scope === "team") {
+        notice = `⛔ Team budget exhausted: ${used}. No more teammates can be spawned; finish with the current team.`;
+      } else if (subLeadId) {
+        notice = `⛔ ${who} reached its budget (${used}): its members take no further turns and it cannot spawn teammates.`;
+      } else {
+        notice = `⛔ ${who} reached its budget (${used}) and takes no further turns. Reassign its open tasks.`;
+      }
+      // Sub-team alerts also go to the sub-lead, which decides what its teammates do
+      for (const to of subLeadId ? ["lead", subLeadId] : ["lead"]) {
+        if (this.bus.getRegisteredAgents().includes(to)) {
+          this.bus.sendMessage("system", to, notice);
+        }
+      }
+    }
+  }
+
+  // ── Task Leases ───────────────────────────────────────────────
+
+  /**
+   * Renew leases for agents that are mid-turn, then return any task
+   * whose lease has lapsed to the pending pool, drop expired locks and
+   * compact mailboxes.
+   */
+  private sweepLeases(): void {
+    for (const agent of this.agents.values()) {
+      if (agent.busy || this.turns.isWaiting(agent.info.id)) this.bus.heartbeat(agent.info.id);
+    }
+    const expired = this.bus.reclaimExpiredLeases();
+    if (expired.length > 0) {
+      this.log("warn", `Reclaimed ${expired.length} task(s) with expired leases`);
+    }
+    for (const lock of this.bus.expireLocks()) {
+      this.log("warn", `Lock on "${lock.resource}" held by ${lock.owner} expired`);
+    }
+    const compacted = this.bus.compactMailboxes();
+    if (compacted > 0) {
+      this.log("debug", `Compacted ${compacted} settled message(s) out of mailboxes`);
+    }
+  }
+
+  /** Tell the Lead that a task went back to pending so it can be reassigned. */
+  private notifyTaskReleased(
+    task: Task,
+    previousAssignee: string,
+    reason: ReleaseReason,
+    note?: string,
+  ): void {
+    const why =
+      reason === "lease-expired"
+        ? `"${previousAssignee}" showed no activity before its claim expired`
+        : reason === "given-up"
+          ? `"${previousAssignee}" gave it up${note ? ` (${note})` : ""}`
+          : `"${previousAssignee}" was shut down`;
+    this.log("info", `Task ${task.id} released back to pending (${reason}, was ${previousAssignee})`);
+
+    if (previousAssignee === "lead" || !this.bus.getRegisteredAgents().includes("lead")) return;
+    this.bus.sendMessage(
+      "system",
+      "lead",
+      `⚠️ Task ${task.id} ("${task.description.slice(0, 80)}") is back to pending because ${why}. ` +
+      `Reassign it or spawn a teammate to pick it up.`,
+    );
+  }
+
+  /** Tell a task's creator that the task can never start because an upstream task failed. */
+  private notifyTaskBlocked(task: Task, failedUpstream: Task): void {
+    this.log("info", `Task ${task.id} blocked by failed dependency ${failedUpstream.id}`);
+
+    const registered = this.bus.getRegisteredAgents();
+    const recipient = registered.includes(task.createdBy) ? task.createdBy : "lead";
+    if (!registered.includes(recipient)) return;
+    this.bus.sendMessage(
+      "system",
+      recipient,
+      `⛔ Task ${task.id} ("${task.description.slice(0, 80)}") is blocked: upstream task ${failedUpstream.id} ` +
+      `failed${failedUpstream.result ? ` (${failedUpstream.result.slice(0, 120)})` : ""}. ` +
+      `It can never start as-is — create a replacement task or change the plan.`,
+    );
+  }
+
+  /**
+   * Tell whoever should pick up a task that its dependencies are done,
+   * with their results inlined so no list_tasks round-trip is needed.
+   * Goes to the pre-assigned teammate, or to the Lead when unassigned.
+   */
+  private notifyTaskUnblocked(task: Task, dependencies: Task[]): void {
+    const registered = this.bus.getRegisteredAgents();
+    const recipient = task.assignee && registered.includes(task.assignee) ? task.assignee : "lead";
+    this.log("info", `Task ${task.id} unblocked — notifying ${recipient}`);
+    if (!registered.includes(recipient)) return;
+
+    const results = dependencies
+      .map((d) => {
+        const result = (d.result ?? "(no result)").slice(0, UPSTREAM_RESULT_CHARS);
+        const artifacts = this.bus.getArtifacts(d.id).map((a) => a.name);
+        const attached = artifacts.length > 0 ? ` [artifacts: ${artifacts.join(", ")}]` : "";
+        return `- ${d.id} ("${d.description.slice(0, 80)}"): ${result}${attached}`;
+      })
+      .join("\n");
+    const action =
+      recipient === task.assignee
+        ? `Claim it with \`claim_task\` and start working.`
+        : `It is unassigned — assign it or spawn a teammate to pick it up.`;
+    this.bus.sendMessage(
+      "system",
+      recipient,
+      `🔓 Task ${task.id} ("${task.description.slice(0, 80)}") is ready: all of its dependencies have completed. ${action}\n\n` +
+      `Upstream results:\n${results}\n\nUse \`get_task_result\` to fetch structured data and artifacts.`,
+    );
+  }
+
+  /**
+   * Stop a teammate from working on a cancelled task. The current turn is
+   * aborted when the agent holds no other in-progress task, then the agent
+   * is told why.
+   */
+  private async interruptCancelledWork(task: Task, agentId: string): Promise<void> {
+    const agent = this.agents.get(agentId);
+    if (!agent) return;
+    this.log("info", `Interrupting [${agent.info.name}] — task ${task.id} was cancelled`);
+
+    const otherWork = this.bus.listTasks({ status: "in-progress", assignee: agentId }).length > 0;
+    if (agent.busy && !otherWork) {
+      try {
+        await agent.session.abort();
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        this.log("warn", `[${agent.info.name}] abort failed: ${message}`);
+      }
+    }
+
+    try {
+      this.bus.sendMessage(
+        "system",
+        agentId,
+        `🛑 STOP working on task ${task.id} ("${task.description.slice(0, 80)}") — it was cancelled. ` +
+        `${task.result ?? ""} Discard any partial work for it and check \`list_tasks\` for what is still needed.`,
+      );
+    } catch {
+      // The agent may have been unregistered in the meantime
+      this.log("warn", `[${agent.info.name}] Could not deliver cancellation notice`);
+    }
+  }
+
+  // ── Polls ─────────────────────────────────────────────────────
+
+  /** Deliver the ballot to every voter. */
+  private notifyPollStarted(poll: Poll): void {
+    this.log("info", `Poll ${poll.id} started by ${poll.createdBy} — ${poll.voters.length} voter(s)`);
+    const options = poll.options.map((o, i) => `  ${i + 1}. ${o}`).join("\n");
+    const deadline = new Date(poll.deadline).toLocaleTimeString();
+    const registered = this.bus.getRegisteredAgents();
+    for (const voter of poll.voters) {
+      if (!registered.includes(voter)) continue;
+      this.bus.sendMessage(
+        "system",
+        voter,
+        `🗳️ ${poll.createdBy} started poll ${poll.id}: "${poll.question}"\nOptions:\n${options}\n\n` +
+        `Vote with \`cast_vote\` (pollId: ${poll.id}) before ${deadline}, giving the rationale for your choice from your own perspective.`,
+      );
+    }
+  }
+
+  /** Hand the poll's creator a structured tally. */
+  private notifyPollClosed(poll: Poll, tally: PollTally): void {
+    this.log("info", `Poll ${poll.id} closed (${tally.reason}) — winner: ${tally.winner ?? "none"}`);
+    if (!this.bus.getRegisteredAgents().includes(poll.createdBy)) return;
+
+    const outcome = tally.winner
+      ? `Winner: "${tally.winner}"`
+      : tally.tied.length > 0
+        ? `Tie between ${tally.tied.map((o) => `"${o}"`).join(" and ")}`
+        : "No votes were cast";
+    const why = tally.reason === "all-voted" ? "everyone voted" : "the deadline passed";
+    const missing = tally.missing.length > 0 ? ` Did not vote: ${tally.missing.join(", ")}.` : "";
+    this.bus.sendMessage(
+      "system",
+      poll.createdBy,
+      `📊 Poll ${poll.id} closed because ${why}. ${outcome}.${missing}\n\n` +
+      `Tally:\n\`\`\`json\n${JSON.stringify(tally, null, 2)}\n\`\`\``,
+    );
+  }
+
   // ── Public API ────────────────────────────────────────────────
 
   /**
@@ -485,6 +1139,21 @@ export class Orchestrator {
     return [...this.agents.values()];
   }
 
+  getQueueStatus(): QueueStatus {
+    return {
+      spawns: this.spawns.pending.map(({ name, role }) => ({ name, role })),
+      waitingTurns: this.turns.depth,
+    };
+  }
+
+  getBudget(): BudgetTracker {
+    return this.budget;
+  }
+
+  getModels(): ModelRegistry {
+    return this.models;
+  }
+
   getBus(): MessageBus {
     return this.bus;
   }
@@ -499,3 +1168,8 @@ export class Orchestrator {
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
+
+/** Whole numbers as-is, fractional premium requests to two decimals. */
+function formatSpend(n: number): string {
+  return Number.isInteger(n) ? String(n) : n.toFixed(2);
+}
@@ -6,7 +6,17 @@
  * instead of raw log output.
  */
 import type { ManagedAgent } from "./agent-session.js";
-import type { Task } from "./message-bus.js";
+import {
+  currentAttempt,
+  type AgentMessage,
+  type MessageDelivery,
+  type MessageLogEntry,
+  type ResourceLock,
+  type Task,
+} from "./message-bus.js";
+import type { BudgetLevel, BudgetReport, Spend } from "./budget.js";
+import { ModelRegistry, type CostTier } from "./model-registry.js";
+import type { QueueStatus } from "./orchestrator.js";
 
 // ── ANSI helpers ───────────────────────────────────────────────────
 
@@ -22,42 +32,39 @@ const BLUE = "\x1b[34m";
 
 // ── Model display helpers ──────────────────────────────────────────
 
-/** Shorten model name for compact display */
-function shortenModelName(model: string): string {
-  if (model.startsWith("claude-opus")) return `opus-${model.split("-").pop()}`;
-  if (model.startsWith("claude-sonnet")) return `sonnet-${model.split("-").pop()}`;
-  if (model.startsWith("claude-haiku")) return `haiku-${model.split("-").pop()}`;
-  if (model.startsWith("gpt-")) return model;
-  return model;
-}
+const TIER_COLORS: Record<CostTier, string> = {
+  premium: MAGENTA,
+  standard: BLUE,
+  low: CYAN,
+};
 
-/** Color code by model tier */
-function modelColor(model: string): string {
-  if (model.includes("opus")) return MAGENTA;
-  if (model.includes("sonnet")) return BLUE;
-  if (model.includes("haiku")) return CYAN;
-  if (model.includes("gpt")) return GREEN;
-  return DIM;
+/** Color code by the model's cost tier in the registry */
+function modelColor(model: string, models: ModelRegistry): string {
+  const tier = models.costTier(model);
+  return tier ? TIER_COLORS[tier] : DIM;
 }
 
-/** Format model name with color coding and gear icon */
-function formatModel(model?: string): string {
+/** Format model name with color coding and gear icon, plus why it was chosen */
+function formatModel(models: ModelRegistry, model?: string, reason?: string): string {
   if (!model) return "";
-  const short = shortenModelName(model);
-  const color = modelColor(model);
-  return ` ${color}⚙ ${short}${RESET}`;
+  const short = models.shortName(model);
+  const color = modelColor(model, models);
+  const why = reason ? ` ${DIM}(${reason})${RESET}` : "";
+  return ` ${color}⚙ ${short}${RESET}${why}`;
 }
 
 // ── Agent Tree ─────────────────────────────────────────────────────
 
 /**
- * Render a tree view of active agents, similar to:
+ * Render a tree view of active agents, following who spawned whom:
  *
- *   ● 2 agents launched
- *     ├ @performance-reviewer (Explore) [BUSY] [claude-sonnet-4.6]
- *     └ @ux-reviewer (Explore) [IDLE] [claude-sonnet-4.6]
+ *   ● @lead (lead) [BUSY] [claude-opus-4.6]
+ *   ● 3 teammate(s) active (sonnet-4.6×3)
+ *     ├ @backend (api) [BUSY] [sonnet-4.6] ◆ sub-lead
+ *     │ └ @db-migrations (schema) [IDLE] [sonnet-4.6]
+ *     └ @ux-reviewer (Explore) [IDLE] [sonnet-4.6]
  */
-export function renderAgentTree(agents: ManagedAgent[]): string {
+export function renderAgentTree(agents: ManagedAgent[], models = new ModelRegistry()): string {
   const teammates = agents.filter((a) => a.info.role !== "lead");
   const lead = agents.find((a) => a.info.role === "lead");
 
@@ -67,7 +74,7 @@ export function renderAgentTree(agents: ManagedAgent[]): string {
     const status = lead.busy
       ? `${YELLOW}BUSY${RESET}`
       : `${GREEN}IDLE${RESET}`;
-    const model = formatModel(lead.info.model);
+    const model = formatModel(models, lead.info.model);
     lines.push(
       `${BOLD}${GREEN}●${RESET} ${BOLD}@${lead.info.name}${RESET} (lead) [${status}]${model}`,
     );
@@ -83,26 +90,41 @@ export function renderAgentTree(agents: ManagedAgent[]): string {
       modelCounts.set(m, (modelCounts.get(m) ?? 0) + 1);
     }
     const modelSummary = [...modelCounts.entries()]
-      .map(([m, c]) => `${shortenModelName(m)}×${c}`)
+      .map(([m, c]) => `${models.shortName(m)}×${c}`)
       .join(", ");
 
     lines.push(
       `${BOLD}● ${teammates.length} teammate(s) active${RESET} ${DIM}(${modelSummary})${RESET}`,
     );
-    teammates.forEach((tm, i) => {
-      const isLast = i === teammates.length - 1;
-      const branch = isLast ? "└" : "├";
-      const status = tm.busy
-        ? `${YELLOW}BUSY${RESET}`
-        : `${GREEN}IDLE${RESET}`;
-      const specialty = tm.info.specialty
-        ? ` ${DIM}(${tm.info.specialty})${RESET}`
-        : "";
-      const model = formatModel(tm.info.model);
-      lines.push(
-        `  ${branch} ${CYAN}@${tm.info.name}${RESET}${specialty} [${status}]${model}`,
-      );
-    });
+
+    // Teammates whose parent is the lead, or not listed, hang off the top level
+    const ids = new Set(teammates.map((tm) => tm.info.id));
+    const children = new Map<string | undefined, ManagedAgent[]>();
+    for (const tm of teammates) {
+      const parent = tm.info.parentId && ids.has(tm.info.parentId) ? tm.info.parentId : undefined;
+      children.set(parent, [...(children.get(parent) ?? []), tm]);
+    }
+
+    const renderLevel = (parent: string | undefined, indent: string) => {
+      const level = children.get(parent) ?? [];
+      level.forEach((tm, i) => {
+        const isLast = i === level.length - 1;
+        const branch = isLast ? "└" : "├";
+        const status = tm.busy
+          ? `${YELLOW}BUSY${RESET}`
+          : `${GREEN}IDLE${RESET}`;
+        const specialty = tm.info.specialty
+          ? ` ${DIM}(${tm.info.specialty})${RESET}`
+          : "";
+        const model = formatModel(models, tm.info.model, tm.info.modelReason);
+        const subLead = tm.info.subLead ? ` ${MAGENTA}◆ sub-lead${RESET}` : "";
+        lines.push(
+          `${indent}${branch} ${CYAN}@${tm.info.name}${RESET}${specialty} [${status}]${model}${subLead}`,
+        );
+        renderLevel(tm.info.id, `${indent}${isLast ? " " : "│"} `);
+      });
+    };
+    renderLevel(undefined, "  ");
   }
 
   return lines.join("\n");
@@ -115,35 +137,183 @@ export function renderAgentTree(agents: ManagedAgent[]): string {
  *
  *   ■ Review API endpoints     → @reviewer [in-progress]
  *   ✓ Fix login bug            → @coder [completed]
- *   □ Write tests              → unassigned [pending]
- *   ✗ Deploy staging           → @devops [failed]
+ *   □ Build checkout flow      → unassigned [pending] (1/2 subtasks)
+ *     ├ ✓ Cart API             → @coder [completed]
+ *     └ □ Payment form         → unassigned [pending]
+ *   ✗ Deploy staging           → @devops [failed · attempt 3/3]
+ *   ⊘ Smoke test staging       → unassigned [blocked]
+ *   ⊖ Old landing page         → unassigned [cancelled]
+ *
+ * Subtasks are indented under their parent as a tree.
  */
 export function renderTaskList(tasks: Task[]): string {
   if (tasks.length === 0) {
     return `  ${DIM}(no tasks)${RESET}`;
   }
 
+  const ids = new Set(tasks.map((t) => t.id));
+  const children = new Map<string, Task[]>();
+  for (const t of tasks) {
+    if (t.parentId && ids.has(t.parentId)) {
+      const list = children.get(t.parentId) ?? [];
+      list.push(t);
+      children.set(t.parentId, list);
+    }
+  }
+
   const lines: string[] = [];
+  const visit = (t: Task, branch: string, indent: string) => {
+    lines.push(renderTaskLine(t, branch, indent, children.get(t.id) ?? []));
+    const kids = children.get(t.id) ?? [];
+    kids.forEach((kid, i) => {
+      const isLast = i === kids.length - 1;
+      visit(kid, `${indent}${isLast ? "└ " : "├ "}`, `${indent}${isLast ? "  " : "│ "}`);
+    });
+  };
+
+  // Tasks whose parent is not in the list are shown as roots
   for (const t of tasks) {
-    const icon = taskIcon(t.status);
-    const color = taskColor(t.status);
-    const assignee = t.assignee ?? "unassigned";
-    const desc =
-      t.description.length > 50
-        ? t.description.slice(0, 47) + "..."
-        : t.description;
-    const result =
-      t.status === "completed" && t.result
-        ? `\n      ${DIM}→ ${t.result.slice(0, 100)}${RESET}`
-        : "";
-    lines.push(
-      `  ${icon} ${color}${desc}${RESET} → ${CYAN}${assignee}${RESET} ${DIM}[${t.status}]${RESET}${result}`,
-    );
+    if (!t.parentId || !ids.has(t.parentId)) visit(t, "", "");
   }
 
   return lines.join("\n");
 }
 
+/** Render one task line plus its detail lines (progress, result, failure). */
+function renderTaskLine(t: Task, branch: string, indent: string, subtasks: Task[]): string {
+  const icon = taskIcon(t.status);
+  const color = taskColor(t.status);
+  const assignee = t.assignee ?? "unassigned";
+  const desc =
+    t.description.length > 50
+      ? t.description.slice(0, 47) + "..."
+      : t.description;
+  const detail = `\n      ${indent}`;
+  const progress =
+    t.status === "in-progress" && t.progress
+      ? `${detail}${YELLOW}… ${t.progress.percent !== undefined ? `${t.progress.percent}% ` : ""}${t.progress.note.slice(0, 100)}${RESET}`
+      : "";
+  const result =
+    t.status === "completed" && t.result
+      ? `${detail}${DIM}→ ${t.result.slice(0, 100)}${RESET}`
+      : "";
+  // Only retryable tasks show the attempt counter
+  const attempt = t.maxAttempts > 1 ? ` · attempt ${currentAttempt(t)}/${t.maxAttempts}` : "";
+  const lastFailure = [...t.attempts].reverse().find((a) => a.outcome === "failed");
+  const failure =
+    lastFailure?.reason && t.status !== "completed"
+      ? `${detail}${RED}✗ ${lastFailure.reason.slice(0, 100)}${RESET}`
+      : "";
+  const blocked =
+    t.status === "blocked" && t.blockedBy
+      ? `${detail}${RED}⊘ blocked by failed ${t.blockedBy}${RESET}`
+      : "";
+  const rollup =
+    subtasks.length > 0
+      ? ` ${DIM}(${subtasks.filter((c) => c.status === "completed").length}/${subtasks.length} subtasks)${RESET}`
+      : "";
+  return `  ${branch}${icon} ${color}${desc}${RESET} → ${CYAN}${assignee}${RESET} ${DIM}[${t.status}${attempt}]${RESET}${rollup}${progress}${result}${failure}${blocked}`;
+}
+
+// ── Message Log ────────────────────────────────────────────────────
+
+/**
+ * Render the team-wide message log chronologically:
+ *
+ *   12:01:05 msg-3 lead → alice: What is the API shape?
+ *   12:01:40 msg-5 alice → lead ↩ msg-3: REST with JSON
+ *   12:02:10 msg-6 lead → * (alice, bob): Wrap up
+ */
+export function renderMessageLog(entries: MessageLogEntry[]): string {
+  if (entries.length === 0) return `  ${DIM}(no messages)${RESET}`;
+
+  return entries
+    .map((m) => {
+      const time = new Date(m.timestamp).toLocaleTimeString();
+      const fanOut = m.to !== m.recipients[0] || m.recipients.length > 1 ? ` (${m.recipients.join(", ")})` : "";
+      const reply = m.inReplyTo ? ` ${DIM}↩ ${m.inReplyTo}${RESET}` : "";
+      return `  ${DIM}${time} ${m.id}${RESET} ${CYAN}${m.from}${RESET} → ${CYAN}${m.to}${RESET}${DIM}${fanOut}${RESET}${reply}: ${oneLine(m.content, 100)}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Render an agent's mailbox with each message's delivery state:
+ *
+ *   ✓ read      12:01:05 msg-3 from lead: What is the API shape?
+ *   ○ queued    12:03:00 msg-9 from bob: Ping
+ */
+export function renderInbox(messages: AgentMessage[], deliveries: Map<string, MessageDelivery>): string {
+  if (messages.length === 0) return `  ${DIM}(empty)${RESET}`;
+
+  return messages
+    .map((m) => {
+      const state = deliveries.get(m.id)?.state ?? (m.read ? "read" : "queued");
+      const time = new Date(m.timestamp).toLocaleTimeString();
+      const via = m.via ? ` via ${m.via}` : "";
+      return `  ${deliveryIcon(state)} ${state.padEnd(9)} ${DIM}${time} ${m.id}${RESET} from ${CYAN}${m.from}${RESET}${via}: ${oneLine(m.content, 100)}`;
+    })
+    .join("\n");
+}
+
+// ── Lock List ──────────────────────────────────────────────────────
+
+/**
+ * Render held resource locks, flagging the ones other agents were
+ * refused:
+ *
+ *   🔒 src/api/**   → @alice (4m left)  ⚠ contended by bob, carol
+ */
+export function renderLockList(locks: ResourceLock[], now = Date.now()): string {
+  if (locks.length === 0) return `  ${DIM}(no locks)${RESET}`;
+
+  return locks
+    .map((l) => {
+      const minutes = Math.max(0, Math.ceil((l.expiresAt - now) / 60_000));
+      const note = l.note ? ` ${DIM}${l.note.slice(0, 40)}${RESET}` : "";
+      const contention =
+        l.contenders.length > 0 ? `  ${RED}⚠ contended by ${l.contenders.join(", ")}${RESET}` : "";
+      return `  🔒 ${l.resource.padEnd(24)} → ${CYAN}@${l.owner}${RESET} ${DIM}(${minutes}m left)${RESET}${note}${contention}`;
+    })
+    .join("\n");
+}
+
+// ── Budget ─────────────────────────────────────────────────────────
+
+/**
+ * Render spend for the team, each agent and each sub-lead's subtree,
+ * flagging reached caps:
+ *
+ *   team     14 turns │ 22.00 premium │ 81.3k tokens  [SOFT CAP]
+ *   ├ @alice  6 turns │ 18.00 premium │ 40.1k tokens
+ *   subtree @alice  9 turns │ 20.00 premium │ 52.0k tokens
+ */
+export function renderBudget(report: BudgetReport, agents: ManagedAgent[] = []): string {
+  const names = new Map(agents.map((a) => [a.info.id, a.info.name]));
+  const lines = [`  ${BOLD}team${RESET}     ${formatSpend(report.team)}${formatLevel(report.teamLevel)}`];
+  report.agents.forEach(({ agentId, spend, level }, i) => {
+    const branch = i === report.agents.length - 1 ? "└" : "├";
+    const name = `@${names.get(agentId) ?? agentId}`;
+    lines.push(`  ${branch} ${CYAN}${name}${RESET}  ${formatSpend(spend)}${formatLevel(level)}`);
+  });
+  for (const { rootId, spend, level } of report.subtrees) {
+    const name = `@${names.get(rootId) ?? rootId}`;
+    lines.push(`  ${BOLD}subtree${RESET} ${CYAN}${name}${RESET}  ${formatSpend(spend)}${formatLevel(level)}`);
+  }
+  return lines.join("\n");
+}
+
+function formatSpend(spend: Spend): string {
+  const tokens = spend.tokens >= 1000 ? `${(spend.tokens / 1000).toFixed(1)}k` : String(spend.tokens);
+  return `${spend.turns} turns │ ${spend.premiumRequests.toFixed(2)} premium │ ${tokens} tokens`;
+}
+
+function formatLevel(level: BudgetLevel): string {
+  if (level === "hard") return `  ${RED}[HARD CAP]${RESET}`;
+  if (level === "soft") return `  ${YELLOW}[SOFT CAP]${RESET}`;
+  return "";
+}
+
 // ── Full Status View ───────────────────────────────────────────────
 
 /**
@@ -152,15 +322,39 @@ export function renderTaskList(tasks: Task[]): string {
 export function renderStatus(
   agents: ManagedAgent[],
   tasks: Task[],
+  locks: ResourceLock[] = [],
+  models = new ModelRegistry(),
+  budget?: BudgetReport,
+  queue?: QueueStatus,
 ): string {
   const sections: string[] = [];
 
   sections.push(`\n${BOLD}Active Agents:${RESET}`);
-  sections.push(renderAgentTree(agents));
+  sections.push(renderAgentTree(agents, models));
 
   sections.push(`\n${BOLD}Shared Tasks:${RESET}`);
   sections.push(renderTaskList(tasks));
 
+  if (locks.length > 0) {
+    sections.push(`\n${BOLD}Resource Locks:${RESET}`);
+    sections.push(renderLockList(locks));
+  }
+
+  if (budget) {
+    sections.push(`\n${BOLD}Spend:${RESET}`);
+    sections.push(renderBudget(budget, agents));
+  }
+
+  if (queue && (queue.spawns.length > 0 || queue.waitingTurns > 0)) {
+    sections.push(`\n${BOLD}Queue:${RESET}`);
+    for (const [i, spawn] of queue.spawns.entries()) {
+      sections.push(`  ${DIM}${i + 1}.${RESET} @${spawn.name} ${DIM}(${spawn.role}) waiting to spawn${RESET}`);
+    }
+    if (queue.waitingTurns > 0) {
+      sections.push(`  ${YELLOW}${queue.waitingTurns} turn(s) waiting for a session slot${RESET}`);
+    }
+  }
+
   // Summary line with model breakdown
   const busyCount = agents.filter((a) => a.busy).length;
   const completedTasks = tasks.filter((t) => t.status === "completed").length;
@@ -172,11 +366,15 @@ export function renderStatus(
     modelCounts.set(m, (modelCounts.get(m) ?? 0) + 1);
   }
   const modelBreakdown = [...modelCounts.entries()]
-    .map(([m, c]) => `${shortenModelName(m)}×${c}`)
+    .map(([m, c]) => `${models.shortName(m)}×${c}`)
     .join(" ");
 
+  const contended = locks.filter((l) => l.contenders.length > 0).length;
+  const lockSummary = locks.length > 0 ? ` │ ${locks.length} locks (${contended} contended)` : "";
+  const queued = queue ? queue.spawns.length + queue.waitingTurns : 0;
+  const queueSummary = queued > 0 ? ` │ ${queued} queued` : "";
   sections.push(
-    `\n${DIM}${busyCount} busy │ ${completedTasks}/${totalTasks} tasks done │ models: ${modelBreakdown}${RESET}`,
+    `\n${DIM}${busyCount} busy${queueSummary} │ ${completedTasks}/${totalTasks} tasks done${lockSummary} │ models: ${modelBreakdown}${RESET}`,
   );
 
   return sections.join("\n");
@@ -184,8 +382,13 @@ export function renderStatus(
 
 // ── Event notifications for main pane ──────────────────────────────
 
-export function notifyAgentSpawned(name: string, role: string, model?: string): string {
-  const modelTag = formatModel(model);
+export function notifyAgentSpawned(
+  name: string,
+  role: string,
+  model?: string,
+  models = new ModelRegistry(),
+): string {
+  const modelTag = formatModel(models, model);
   return `${GREEN}+${RESET} ${BOLD}@${name}${RESET} spawned ${DIM}(${role})${RESET}${modelTag}`;
 }
 
@@ -203,8 +406,50 @@ export function notifyTaskCompleted(desc: string, assignee?: string): string {
   return `${GREEN}✓${RESET} Task done: ${desc.slice(0, 60)}${by}`;
 }
 
+export function notifyTaskProgress(desc: string, note: string, percent?: number): string {
+  const pct = percent !== undefined ? `${percent}% ` : "";
+  return `${YELLOW}…${RESET} ${desc.slice(0, 40)}: ${pct}${DIM}${note.slice(0, 60)}${RESET}`;
+}
+
+export function notifyTaskFailed(desc: string, assignee?: string, reason?: string): string {
+  const by = assignee ? ` by ${CYAN}${assignee}${RESET}` : "";
+  const why = reason ? ` ${DIM}(${reason.slice(0, 60)})${RESET}` : "";
+  return `${RED}✗${RESET} Task failed: ${desc.slice(0, 60)}${by}${why}`;
+}
+
+export function notifyTaskCancelled(desc: string): string {
+  return `${DIM}⊖${RESET} Task cancelled: ${desc.slice(0, 60)}`;
+}
+
+export function notifyTaskRetrying(desc: string, attempt: number, maxAttempts: number, reason?: string): string {
+  const why = reason ? ` ${DIM}(${reason.slice(0, 60)})${RESET}` : "";
+  return `${YELLOW}↻${RESET} Task retrying: ${desc.slice(0, 60)} — attempt ${attempt}/${maxAttempts}${why}`;
+}
+
+export function notifyBlackboardChanged(key: string, version: number, updatedBy: string): string {
+  return `${CYAN}≡${RESET} Blackboard ${BOLD}${key}${RESET} v${version} by ${CYAN}${updatedBy}${RESET}`;
+}
+
 // ── Helpers ────────────────────────────────────────────────────────
 
+function oneLine(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+function deliveryIcon(state: string): string {
+  switch (state) {
+    case "read":
+      return `${GREEN}✓${RESET}`;
+    case "delivered":
+      return `${YELLOW}●${RESET}`;
+    case "dropped":
+      return `${RED}✗${RESET}`;
+    default:
+      return `${DIM}○${RESET}`;
+  }
+}
+
 function taskIcon(status: string): string {
   switch (status) {
     case "completed":
@@ -213,6 +458,10 @@ function taskIcon(status: string): string {
       return `${YELLOW}■${RESET}`;
     case "failed":
       return `${RED}✗${RESET}`;
+    case "blocked":
+      return `${RED}⊘${RESET}`;
+    case "cancelled":
+      return `${DIM}⊖${RESET}`;
     default:
       return `${DIM}□${RESET}`;
   }
@@ -225,7 +474,10 @@ function taskColor(status: string): string {
     case "in-progress":
       return YELLOW;
     case "failed":
+    case "blocked":
       return RED;
+    case "cancelled":
+      return DIM;
     default:
       return "";
   }
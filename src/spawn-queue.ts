@@ -0,0 +1,81 @@
+/**
+ * SpawnQueue — caps how many teammates exist at once.
+ *
+ * A spawn holds a slot with reserve() while its session is created, so
+ * concurrent spawns cannot all pass the limit check before any of them
+ * registers. Requests that find no free slot wait in a FIFO queue and
+ * are started by drain() once a slot frees up: when a teammate shuts
+ * down, or when a reserved spawn fails.
+ */
+
+export class SpawnQueue<T> {
+  private waiting: T[] = [];
+  /** Spawns holding a slot whose session is still being created */
+  private inFlight = 0;
+
+  /**
+   * @param limit - Most teammates alive or being created at once
+   * @param liveCount - Teammates currently alive
+   * @param start - Starts a queued request; must not throw
+   */
+  constructor(
+    private readonly limit: number,
+    private readonly liveCount: () => number,
+    private readonly start: (request: T) => Promise<void>,
+  ) {}
+
+  /** Live teammates plus spawns still creating their session. */
+  get size(): number {
+    return this.liveCount() + this.inFlight;
+  }
+
+  /** Whether another spawn may start now. */
+  get hasRoom(): boolean {
+    return this.size < this.limit;
+  }
+
+  /** Requests waiting for a slot, oldest first. */
+  get pending(): readonly T[] {
+    return this.waiting;
+  }
+
+  /** Queue a request; returns its 1-based position. */
+  enqueue(request: T): number {
+    this.waiting.push(request);
+    return this.waiting.length;
+  }
+
+  /** Forget waiting requests that match `predicate`. */
+  discard(predicate: (request: T) => boolean): void {
+    this.waiting = this.waiting.filter((r) => !predicate(r));
+  }
+
+  clear(): void {
+    this.waiting = [];
+  }
+
+  /**
+   * Hold a slot while `create` runs. Once it resolves the new teammate
+   * is counted by `liveCount`; if it rejects the slot is free again and
+   * the next waiting request is started.
+   */
+  async reserve<R>(create: () => Promise<R>): Promise<R> {
+    this.inFlight++;
+    let created = false;
+    try {
+      const result = await create();
+      created = true;
+      return result;
+    } finally {
+      this.inFlight--;
+      if (!created) void this.drain();
+    }
+  }
+
+  /** Start waiting requests, oldest first, while there is room. */
+  async drain(): Promise<void> {
+    while (this.waiting.length > 0 && this.hasRoom) {
+      await this.start(this.waiting.shift()!);
+    }
+  }
+}
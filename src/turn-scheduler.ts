@@ -0,0 +1,83 @@
+/**
+ * TurnScheduler — caps how many agent sessions run a turn at once.
+ *
+ * A turn takes a slot with acquire() and gives it back with release().
+ * When every slot is taken, turns wait in a queue that is fair across
+ * agents: waiting agents are served round-robin, so an agent with many
+ * queued prompts cannot starve the others.
+ */
+
+export class TurnScheduler {
+  private active = 0;
+  /** Agents with waiting turns, in the order they will be served */
+  private rotation: string[] = [];
+  /** Waiting turns per agent, oldest first; resolved with false when cancelled */
+  private waiters = new Map<string, ((granted: boolean) => void)[]>();
+
+  constructor(private readonly maxConcurrent: number) {}
+
+  /**
+   * Wait for a free slot.  Resolves with true once the caller holds a
+   * slot, or false if the agent's waiting turns were cancelled.
+   */
+  acquire(agentId: string): Promise<boolean> {
+    if (this.active < this.maxConcurrent && this.rotation.length === 0) {
+      this.active++;
+      return Promise.resolve(true);
+    }
+    return new Promise<boolean>((resolve) => {
+      const queue = this.waiters.get(agentId) ?? [];
+      queue.push(resolve);
+      this.waiters.set(agentId, queue);
+      if (!this.rotation.includes(agentId)) this.rotation.push(agentId);
+    });
+  }
+
+  /** Give a slot back and hand it to the next agent in the rotation. */
+  release(): void {
+    this.active = Math.max(0, this.active - 1);
+    this.grantNext();
+  }
+
+  /** Drop an agent's waiting turns, e.g. when it is shut down. */
+  cancel(agentId: string): void {
+    const queue = this.waiters.get(agentId) ?? [];
+    this.waiters.delete(agentId);
+    this.rotation = this.rotation.filter((id) => id !== agentId);
+    for (const resolve of queue) resolve(false);
+  }
+
+  /** Whether the agent has a turn waiting for a slot. */
+  isWaiting(agentId: string): boolean {
+    return this.waiters.has(agentId);
+  }
+
+  /** Turns currently running. */
+  get running(): number {
+    return this.active;
+  }
+
+  /** Turns waiting for a slot. */
+  get depth(): number {
+    let depth = 0;
+    for (const queue of this.waiters.values()) depth += queue.length;
+    return depth;
+  }
+
+  private grantNext(): void {
+    while (this.active < this.maxConcurrent && this.rotation.length > 0) {
+      const agentId = this.rotation.shift()!;
+      const queue = this.waiters.get(agentId) ?? [];
+      const resolve = queue.shift();
+      if (queue.length > 0) {
+        this.rotation.push(agentId);
+      } else {
+        this.waiters.delete(agentId);
+      }
+      if (resolve) {
+        this.active++;
+        resolve(true);
+      }
+    }
+  }
+}